@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @notice Plaintext bias classification applied to decrypted article features.
+/// @dev Mirrored by frontend/web/src/scoring.ts; test/BiasScoring.ts checks that both agree.
+library BiasScoring {
+    uint32 internal constant BASELINE = 50;
+
+    function calculateBiasScore(uint32 contentScore, uint32 sentiment) internal pure returns (string memory) {
+        uint32 score = (contentScore * 2 + sentiment * 3) / 5;
+        if (score > 80) return "HighlyBiased";
+        if (score > 60) return "ModeratelyBiased";
+        if (score > 40) return "SlightlyBiased";
+        return "Neutral";
+    }
+
+    function compareWithBaseline(uint32 contentScore, uint32 sentiment) internal pure returns (string memory) {
+        uint32 contentDiff = contentScore > BASELINE ? contentScore - BASELINE : BASELINE - contentScore;
+        uint32 sentimentDiff = sentiment > BASELINE ? sentiment - BASELINE : BASELINE - sentiment;
+
+        if (contentDiff > 30 || sentimentDiff > 30) return "SignificantDeviation";
+        if (contentDiff > 15 || sentimentDiff > 15) return "ModerateDeviation";
+        return "WithinNormalRange";
+    }
+
+    function identifyMediaOutlet(uint32 keywords) internal pure returns (string memory) {
+        if (keywords % 5 == 0) return "OutletA";
+        if (keywords % 5 == 1) return "OutletB";
+        if (keywords % 5 == 2) return "OutletC";
+        if (keywords % 5 == 3) return "OutletD";
+        return "OutletE";
+    }
+}
@@ -1,8 +1,9 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { BiasScoring } from "./BiasScoring.sol";
 
 contract NewsBiasFHE is SepoliaConfig {
     struct EncryptedArticle {
@@ -25,14 +26,16 @@ contract NewsBiasFHE is SepoliaConfig {
     mapping(uint256 => BiasAnalysis) public analyses;
     
     mapping(string => euint32) private encryptedBiasCount;
+    mapping(string => uint32) public decryptedBiasCount;
     string[] private biasCategoryList;
     
     mapping(uint256 => uint256) private requestToArticleId;
-    mapping(address => bool) private authorizedAnalysts;
+    mapping(address => bool) public authorizedAnalysts;
     
     event ArticleSubmitted(uint256 indexed articleId, uint256 timestamp);
     event AnalysisRequested(uint256 indexed articleId);
     event AnalysisCompleted(uint256 indexed articleId);
+    event BiasCountDecrypted(string biasCategory, uint32 count);
     
     modifier onlyAnalyst() {
         require(authorizedAnalysts[msg.sender], "Unauthorized analyst");
@@ -48,10 +51,24 @@ contract NewsBiasFHE is SepoliaConfig {
     }
     
     function submitEncryptedArticle(
-        euint32 encryptedContent,
-        euint32 encryptedSentiment,
-        euint32 encryptedKeywords
+        externalEuint32 contentInput,
+        externalEuint32 sentimentInput,
+        externalEuint32 keywordsInput,
+        bytes calldata inputProof
     ) public onlyAnalyst {
+        euint32 encryptedContent = FHE.fromExternal(contentInput, inputProof);
+        euint32 encryptedSentiment = FHE.fromExternal(sentimentInput, inputProof);
+        euint32 encryptedKeywords = FHE.fromExternal(keywordsInput, inputProof);
+        
+        // The contract needs persistent access to request decryption later,
+        // the submitting analyst to read the features back.
+        FHE.allowThis(encryptedContent);
+        FHE.allowThis(encryptedSentiment);
+        FHE.allowThis(encryptedKeywords);
+        FHE.allow(encryptedContent, msg.sender);
+        FHE.allow(encryptedSentiment, msg.sender);
+        FHE.allow(encryptedKeywords, msg.sender);
+        
         articleCount += 1;
         uint256 newId = articleCount;
         
@@ -101,14 +118,12 @@ contract NewsBiasFHE is SepoliaConfig {
         
         FHE.checkSignatures(requestId, cleartexts, proof);
         
-        uint32[] memory results = abi.decode(cleartexts, (uint32[]));
-        uint32 contentScore = results[0];
-        uint32 sentiment = results[1];
-        uint32 keywords = results[2];
+        // One ABI word per requested handle, in request order
+        (uint32 contentScore, uint32 sentiment, uint32 keywords) = abi.decode(cleartexts, (uint32, uint32, uint32));
         
-        analysis.biasScore = calculateBiasScore(contentScore, sentiment);
-        analysis.comparisonResult = compareWithBaseline(contentScore, sentiment);
-        analysis.mediaOutlet = identifyMediaOutlet(keywords);
+        analysis.biasScore = BiasScoring.calculateBiasScore(contentScore, sentiment);
+        analysis.comparisonResult = BiasScoring.compareWithBaseline(contentScore, sentiment);
+        analysis.mediaOutlet = BiasScoring.identifyMediaOutlet(keywords);
         analysis.isAnalyzed = true;
         
         if (FHE.isInitialized(encryptedBiasCount[analysis.biasScore]) == false) {
@@ -119,6 +134,7 @@ contract NewsBiasFHE is SepoliaConfig {
             encryptedBiasCount[analysis.biasScore], 
             FHE.asEuint32(1)
         );
+        FHE.allowThis(encryptedBiasCount[analysis.biasScore]);
         
         emit AnalysisCompleted(articleId);
     }
@@ -137,6 +153,21 @@ contract NewsBiasFHE is SepoliaConfig {
         return encryptedBiasCount[biasCategory];
     }
     
+    // Analysts grant themselves the current handle of a count to user-decrypt it;
+    // every update is a new handle that needs granting again.
+    function allowBiasCount(string memory biasCategory) public onlyAnalyst {
+        euint32 count = encryptedBiasCount[biasCategory];
+        require(FHE.isInitialized(count), "Category not found");
+        FHE.allow(count, msg.sender);
+    }
+
+    // Grants several counts in one transaction, e.g. every category a dashboard shows.
+    function allowBiasCounts(string[] calldata biasCategories) public onlyAnalyst {
+        for (uint256 i = 0; i < biasCategories.length; i++) {
+            allowBiasCount(biasCategories[i]);
+        }
+    }
+    
     function requestBiasCountDecryption(string memory biasCategory) public onlyAnalyst {
         euint32 count = encryptedBiasCount[biasCategory];
         require(FHE.isInitialized(count), "Category not found");
@@ -152,39 +183,15 @@ contract NewsBiasFHE is SepoliaConfig {
         uint256 requestId,
         bytes memory cleartexts,
         bytes memory proof
-    ) public onlyAnalyst {
+    ) public {
         uint256 biasCategoryHash = requestToArticleId[requestId];
         string memory biasCategory = getBiasCategoryFromHash(biasCategoryHash);
         
         FHE.checkSignatures(requestId, cleartexts, proof);
         uint32 count = abi.decode(cleartexts, (uint32));
-    }
-    
-    // Bias analysis algorithms
-    function calculateBiasScore(uint32 contentScore, uint32 sentiment) private pure returns (string memory) {
-        uint32 score = (contentScore * 2 + sentiment * 3) / 5;
-        if (score > 80) return "HighlyBiased";
-        if (score > 60) return "ModeratelyBiased";
-        if (score > 40) return "SlightlyBiased";
-        return "Neutral";
-    }
-    
-    function compareWithBaseline(uint32 contentScore, uint32 sentiment) private pure returns (string memory) {
-        uint32 baseline = 50;
-        uint32 contentDiff = contentScore > baseline ? contentScore - baseline : baseline - contentScore;
-        uint32 sentimentDiff = sentiment > baseline ? sentiment - baseline : baseline - sentiment;
         
-        if (contentDiff > 30 || sentimentDiff > 30) return "SignificantDeviation";
-        if (contentDiff > 15 || sentimentDiff > 15) return "ModerateDeviation";
-        return "WithinNormalRange";
-    }
-    
-    function identifyMediaOutlet(uint32 keywords) private pure returns (string memory) {
-        if (keywords % 5 == 0) return "OutletA";
-        if (keywords % 5 == 1) return "OutletB";
-        if (keywords % 5 == 2) return "OutletC";
-        if (keywords % 5 == 3) return "OutletD";
-        return "OutletE";
+        decryptedBiasCount[biasCategory] = count;
+        emit BiasCountDecrypted(biasCategory, count);
     }
     
     function bytes32ToUint(bytes32 b) private pure returns (uint256) {
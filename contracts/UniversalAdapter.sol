@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @notice Public key-value store for article metadata (source, keyword tags).
+/// @dev Every write is mirrored in a DataStored event so readers can rebuild the store from logs.
+contract UniversalAdapter {
+    mapping(string => bytes) private store;
+
+    event DataStored(address indexed sender, string key, bytes value);
+
+    function setData(string calldata key, bytes calldata value) external {
+        store[key] = value;
+        emit DataStored(msg.sender, key, value);
+    }
+
+    function getData(string calldata key) external view returns (bytes memory) {
+        return store[key];
+    }
+
+    function isAvailable() external pure returns (bool) {
+        return true;
+    }
+}
@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { BiasScoring } from "../BiasScoring.sol";
+
+/// @dev Test-only wrapper exposing the internal BiasScoring functions.
+contract BiasScoringHarness {
+    function calculateBiasScore(uint32 contentScore, uint32 sentiment) external pure returns (string memory) {
+        return BiasScoring.calculateBiasScore(contentScore, sentiment);
+    }
+
+    function compareWithBaseline(uint32 contentScore, uint32 sentiment) external pure returns (string memory) {
+        return BiasScoring.compareWithBaseline(contentScore, sentiment);
+    }
+
+    function identifyMediaOutlet(uint32 keywords) external pure returns (string memory) {
+        return BiasScoring.identifyMediaOutlet(keywords);
+    }
+
+    /// @notice Scores every sentiment in [0, maxSentiment] for one content score in a single call.
+    function scoreRow(
+        uint32 contentScore,
+        uint32 maxSentiment
+    ) external pure returns (string[] memory biasScores, string[] memory comparisons) {
+        biasScores = new string[](maxSentiment + 1);
+        comparisons = new string[](maxSentiment + 1);
+        for (uint32 sentiment = 0; sentiment <= maxSentiment; sentiment++) {
+            biasScores[sentiment] = BiasScoring.calculateBiasScore(contentScore, sentiment);
+            comparisons[sentiment] = BiasScoring.compareWithBaseline(contentScore, sentiment);
+        }
+    }
+}
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\core-components-factory\bridge.rs
-// Generated at: 2025-10-11T09:19:08.737Z
\ No newline at end of file
@@ -1,3 +0,0 @@
-import React from 'react';
-
-export const controller-analytics = () => { return null; };
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\core-components-factory\types-dist-manager\registry-lib-layouts.go
-// Generated at: 2025-10-11T09:19:08.740Z
\ No newline at end of file
@@ -1,35 +1,78 @@
 // App.tsx
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import {
+  config,
+  getContractReadOnly,
+  getContractWithSigner,
+  getMetadataReadOnly,
+  getMetadataWithSigner,
+  getWalletProvider,
+  rpcPool
+} from "./contract";
+import { BiasAnalysis, TxTracker, requestBiasAnalysis, submitEncryptedArticle } from "./newsBiasClient";
+import { AnalysisRequestRecord, ArticleLogState, LegacyArticle, joinArticles, joinLegacyArticles, metadataKey } from "./articleLogs";
+import { pendingAnalysis } from "./analysisTracker";
+import { readCachedArticles, syncCachedArticleLogs } from "./articleCache";
+import { createArticleRecord, encodeArticleRecord } from "./articleSchema";
+import { clearPendingMetadata, getPendingMetadata, savePendingMetadata } from "./pendingMetadata";
+import { describeTxError, sendPreflighted } from "./preflight";
+import { txManager } from "./transactions";
+import { ActivityEntry, notifications } from "./notifications";
+import { switchWalletChain } from "./walletNetwork";
+import { useWalletSession } from "./walletSession";
+import { ArticleFeatureValues, encryptArticleFeatures } from "./fhe";
+import { decryptBiasCounts, decryptForUser } from "./userDecryption";
+import { extractFeatures } from "./features";
+import { BIAS_CATEGORIES, BIAS_THRESHOLDS, biasLevel, scoreFeatures } from "./scoring";
 import WalletManager from "./components/WalletManager";
-import WalletSelector from "./components/WalletSelector";
+import WalletSelector, { WalletInfo } from "./components/WalletSelector";
+import RpcStatus from "./components/RpcStatus";
+import NetworkBanner from "./components/NetworkBanner";
+import PendingTransactions from "./components/PendingTransactions";
+import Toasts from "./components/Toasts";
+import ActivityPanel from "./components/ActivityPanel";
+import PrivateCounts from "./components/PrivateCounts";
+import PendingAnalyses from "./components/PendingAnalyses";
 import "./App.css";
 
 interface NewsArticle {
-  id: string;
-  encryptedContent: string;
+  id: number;
   source: string;
   timestamp: number;
-  biasScore?: number;
   keywords: string[];
+  // Account that wrote the article's metadata, from its DataStored log
+  publisher?: string;
+  // Metadata saved locally whose setData never confirmed
+  metadataPending: boolean;
+  // Latest AnalysisRequested of the article
+  request?: AnalysisRequestRecord;
+  analysis?: BiasAnalysis;
 }
 
+// Stored metadata that failed schema validation, shown in the diagnostics panel
+interface MetadataIssue {
+  key: string;
+  label: string;
+  sender: string;
+  txHash: string;
+  error: string;
+}
+
+const ORACLE_POLL_INTERVAL_MS = 10000;
+
 const App: React.FC = () => {
   // Randomly selected style: High contrast (blue+orange), Flat UI, Center radiation layout, Micro-interactions
-  const [account, setAccount] = useState("");
+  const { account, chainId: walletChainId, provider, connect, disconnect } = useWalletSession();
   const [loading, setLoading] = useState(true);
   const [articles, setArticles] = useState<NewsArticle[]>([]);
-  const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
+  const [metadataIssues, setMetadataIssues] = useState<MetadataIssue[]>([]);
+  const [migratedCount, setMigratedCount] = useState(0);
+  const [legacyArticles, setLegacyArticles] = useState<LegacyArticle[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
   const [addingArticle, setAddingArticle] = useState(false);
   const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
-  const [transactionStatus, setTransactionStatus] = useState<{
-    visible: boolean;
-    status: "pending" | "success" | "error";
-    message: string;
-  }>({ visible: false, status: "pending", message: "" });
   const [newArticle, setNewArticle] = useState({
     source: "",
     content: "",
@@ -37,91 +80,127 @@ const App: React.FC = () => {
   });
   const [activeTab, setActiveTab] = useState("all");
   const [searchQuery, setSearchQuery] = useState("");
+  // Plaintexts user-decrypted for the connected account, never shared with other accounts
+  const [privateCounts, setPrivateCounts] = useState<Record<string, number | undefined> | null>(null);
+  const [revealedFeatures, setRevealedFeatures] = useState<Record<number, ArticleFeatureValues>>({});
 
   // Randomly selected additional features: Search & Filter, Data Statistics, Smart Chart, Project Introduction
   const totalArticles = articles.length;
-  const averageBias = articles.reduce((sum, article) => sum + (article.biasScore || 0), 0) / (totalArticles || 1);
+  const analyzedCount = articles.filter(article => article.analysis?.isAnalyzed).length;
   const sources = [...new Set(articles.map(article => article.source))];
 
   useEffect(() => {
     loadArticles().finally(() => setLoading(false));
+    // Transactions left pending by a previous visit change the articles once they are mined
+    txManager.resume();
+    notifications
+      .state()
+      .entries.filter(entry => entry.status === "pending" && entry.txHash)
+      .forEach(entry =>
+        txManager.wait(entry.txHash!).then(
+          () => {
+            notifications.update(entry.id, { status: "success", message: "Mined after the page was reloaded" });
+            if (entry.kind === "analysis" && entry.articleId !== undefined) awaitDecryption(entry.articleId);
+            loadArticles();
+          },
+          e => notifications.update(entry.id, { status: "error", message: describeTxError(e) })
+        )
+      );
   }, []);
 
-  const onWalletSelect = async (wallet: any) => {
+  const onWalletSelect = async (wallet: WalletInfo) => {
     if (!wallet.provider) return;
     try {
-      const web3Provider = new ethers.BrowserProvider(wallet.provider);
-      setProvider(web3Provider);
-      const accounts = await web3Provider.send("eth_requestAccounts", []);
-      const acc = accounts[0] || "";
-      setAccount(acc);
-
-      wallet.provider.on("accountsChanged", async (accounts: string[]) => {
-        const newAcc = accounts[0] || "";
-        setAccount(newAcc);
-      });
+      await connect({ ...wallet, provider: wallet.provider });
     } catch (e) {
       alert("Failed to connect wallet");
     }
   };
 
+  // The oracle's AnalysisCompleted arrives on its own, look for it while requests are unanswered
+  const awaitingOracle = articles.some(article => article.request && !article.analysis?.isAnalyzed);
+  useEffect(() => {
+    if (!awaitingOracle) return;
+    const timer = setInterval(loadArticles, ORACLE_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [awaitingOracle]);
+
+  useEffect(() => {
+    setPrivateCounts(null);
+    setRevealedFeatures({});
+  }, [account]);
+
   const onConnect = () => setWalletSelectorOpen(true);
-  const onDisconnect = () => {
-    setAccount("");
-    setProvider(null);
+  const onDisconnect = disconnect;
+
+  const showArticles = (state: ArticleLogState) => {
+    const indexed = joinArticles(state);
+    const legacy = joinLegacyArticles(state);
+    setMetadataIssues([
+      ...indexed
+        .filter(article => article.metadataIssue && article.metadataRecord)
+        .map(article => ({
+          key: article.metadataRecord!.key,
+          label: `Article #${article.id}`,
+          sender: article.metadataRecord!.sender,
+          txHash: article.metadataRecord!.txHash,
+          error: article.metadataIssue!
+        })),
+      ...legacy
+        .filter(article => article.metadataIssue)
+        .map(article => ({
+          key: article.key,
+          label: article.key,
+          sender: article.metadataRecord.sender,
+          txHash: article.metadataRecord.txHash,
+          error: article.metadataIssue!
+        }))
+    ]);
+    setMigratedCount([...indexed, ...legacy].filter(article => article.migratedFrom !== undefined).length);
+    setLegacyArticles(legacy.filter(article => article.metadata));
+    for (const article of indexed) {
+      if (!article.analysis?.isAnalyzed) continue;
+      const waiting = notifications.find(
+        entry => entry.kind === "decryption" && entry.status === "pending" && entry.articleId === article.id
+      );
+      if (waiting) {
+        notifications.update(waiting.id, { status: "success", message: `Bias category: ${article.analysis.biasScore}` });
+      }
+    }
+    setArticles(
+      indexed.map(article => {
+        // A write that confirmed after its tab was closed is not pending any more
+        if (article.metadataRecord) clearPendingMetadata(article.id);
+        return {
+          id: article.id,
+          source: article.metadata?.source || "Unknown",
+          timestamp: article.timestamp,
+          keywords: article.metadata?.keywords || [],
+          publisher: article.metadataRecord?.sender,
+          metadataPending: !article.metadataRecord && getPendingMetadata(article.id) !== undefined,
+          request: article.request,
+          analysis: article.analysis
+        };
+      })
+    );
   };
 
   const loadArticles = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      // Check contract availability using FHE
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        console.error("Contract is not available");
-        return;
+      // Render the cached articles right away, the sync below only fetches newer blocks
+      const cached = await readCachedArticles();
+      if (cached) {
+        showArticles(cached.state);
+        setLoading(false);
       }
-      
-      const keysBytes = await contract.getData("article_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing article keys:", e);
-        }
-      }
-      
-      const list: NewsArticle[] = [];
-      
-      for (const key of keys) {
-        try {
-          const articleBytes = await contract.getData(`article_${key}`);
-          if (articleBytes.length > 0) {
-            try {
-              const articleData = JSON.parse(ethers.toUtf8String(articleBytes));
-              list.push({
-                id: key,
-                encryptedContent: articleData.content,
-                source: articleData.source,
-                timestamp: articleData.timestamp,
-                biasScore: articleData.biasScore,
-                keywords: articleData.keywords || []
-              });
-            } catch (e) {
-              console.error(`Error parsing article data for ${key}:`, e);
-            }
-          }
-        } catch (e) {
-          console.error(`Error loading article ${key}:`, e);
-        }
-      }
-      
-      list.sort((a, b) => b.timestamp - a.timestamp);
-      setArticles(list);
+
+      // The article index and analysis results are critical reads, checked by the RPC quorum
+      const contract = await getContractReadOnly(true);
+      if (!contract) return;
+      const metadata = await getMetadataReadOnly(true);
+
+      showArticles(await syncCachedArticleLogs(contract, metadata, cached));
     } catch (e) {
       console.error("Error loading articles:", e);
     } finally {
@@ -130,6 +209,56 @@ const App: React.FC = () => {
     }
   };
 
+  // Records the hash of the sent transaction on its activity entry
+  const trackerFor = (entryId: string): TxTracker => ({
+    track: (tx, label) => {
+      notifications.update(entryId, { txHash: tx.hash, message: "Waiting to be mined" });
+      return txManager.track(tx, label);
+    }
+  });
+
+  // The oracle answers an analysis request in a later transaction, seen by loadArticles
+  const awaitDecryption = (articleId: number) => {
+    notifications.push({
+      kind: "decryption",
+      status: "pending",
+      title: `Decryption of article #${articleId}`,
+      message: "Waiting for the decryption oracle",
+      articleId
+    });
+  };
+
+  // Saves the payload first so a failed write can be retried from the article row
+  const storeMetadata = async (articleId: number, payload: string) => {
+    savePendingMetadata(articleId, payload);
+    const entryId = notifications.push({
+      kind: "metadata",
+      status: "pending",
+      title: `Metadata of article #${articleId}`,
+      message: "Storing public metadata...",
+      articleId,
+      retry: { type: "metadata", articleId }
+    });
+
+    try {
+      const metadata = await getMetadataWithSigner();
+      const tx = await sendPreflighted(
+        metadata,
+        metadata.setData,
+        [metadataKey(articleId), ethers.toUtf8Bytes(payload)],
+        "Metadata write"
+      );
+      await trackerFor(entryId).track(tx, `Metadata of article #${articleId}`);
+      clearPendingMetadata(articleId);
+      notifications.update(entryId, { status: "success", message: "Metadata stored" });
+    } catch (e: any) {
+      notifications.update(entryId, {
+        status: "error",
+        message: `Storing metadata failed: ${describeTxError(e)}. Retry here or with "Store metadata" on the article row.`
+      });
+    }
+  };
+
   const addArticle = async () => {
     if (!provider) { 
       alert("Please connect wallet first"); 
@@ -137,153 +266,141 @@ const App: React.FC = () => {
     }
     
     setAddingArticle(true);
-    setTransactionStatus({
-      visible: true,
+    const entryId = notifications.push({
+      kind: "submission",
       status: "pending",
-      message: "Encrypting news content with FHE..."
+      title: "Article submission",
+      message: "Encrypting news content with FHE...",
+      retry: { type: "submission" }
     });
     
     try {
-      // Simulate FHE encryption
-      const encryptedContent = `FHE-${btoa(newArticle.content)}`;
       const keywords = newArticle.keywords.split(',').map(k => k.trim()).filter(k => k);
+      // Validated before anything is sent, a rejected payload must not leave an article without metadata
+      const record = createArticleRecord({ source: newArticle.source, keywords });
       
       const contract = await getContractWithSigner();
       if (!contract) {
         throw new Error("Failed to get contract with signer");
       }
       
-      const articleId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-      const articleData = {
-        content: encryptedContent,
-        source: newArticle.source,
-        timestamp: Math.floor(Date.now() / 1000),
-        keywords: keywords
-      };
-      
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
-        `article_${articleId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(articleData))
-      );
-      
-      const keysBytes = await contract.getData("article_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing keys:", e);
-        }
-      }
+      const features = extractFeatures(newArticle.content);
+      const { handles, inputProof } = await encryptArticleFeatures(config.contractAddress, account, features);
       
-      keys.push(articleId);
+      notifications.update(entryId, { message: "Submitting encrypted article..." });
       
-      await contract.setData(
-        "article_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
-      );
-      
-      setTransactionStatus({
-        visible: true,
+      const { articleId } = await submitEncryptedArticle(contract, handles, inputProof, trackerFor(entryId));
+      notifications.update(entryId, {
         status: "success",
-        message: "News article encrypted and stored securely!"
+        articleId,
+        message: `Article #${articleId} encrypted and stored`
+      });
+      setShowAddModal(false);
+      setNewArticle({
+        source: "",
+        content: "",
+        keywords: ""
       });
       
+      // Only public metadata goes to the key-value store; the content stays encrypted
+      await storeMetadata(articleId, encodeArticleRecord(record));
       await loadArticles();
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-        setShowAddModal(false);
-        setNewArticle({
-          source: "",
-          content: "",
-          keywords: ""
-        });
-      }, 2000);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction")
-        ? "Transaction rejected by user"
-        : "Submission failed: " + (e.message || "Unknown error");
-      
-      setTransactionStatus({
-        visible: true,
-        status: "error",
-        message: errorMessage
-      });
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 3000);
+      notifications.update(entryId, { status: "error", message: "Submission failed: " + describeTxError(e) });
     } finally {
       setAddingArticle(false);
     }
   };
 
-  const analyzeBias = async (articleId: string) => {
+  const retryMetadata = async (articleId: number) => {
+    const payload = getPendingMetadata(articleId);
+    if (!payload) return;
     if (!provider) {
       alert("Please connect wallet first");
       return;
     }
 
-    setTransactionStatus({
-      visible: true,
+    await storeMetadata(articleId, payload);
+    await loadArticles();
+  };
+
+  const analyzeBias = async (articleId: number) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    const entryId = notifications.push({
+      kind: "analysis",
       status: "pending",
-      message: "Analyzing bias with FHE computation..."
+      title: `Analysis of article #${articleId}`,
+      message: "Requesting FHE bias analysis...",
+      articleId,
+      retry: { type: "analysis", articleId }
     });
 
     try {
-      // Simulate FHE computation time
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
       const contract = await getContractWithSigner();
       if (!contract) {
         throw new Error("Failed to get contract with signer");
       }
       
-      const articleBytes = await contract.getData(`article_${articleId}`);
-      if (articleBytes.length === 0) {
-        throw new Error("Article not found");
-      }
-      
-      const articleData = JSON.parse(ethers.toUtf8String(articleBytes));
-      
-      // Generate random bias score for demo (0-100)
-      const biasScore = Math.floor(Math.random() * 100);
-      
-      const updatedArticle = {
-        ...articleData,
-        biasScore: biasScore
-      };
-      
-      await contract.setData(
-        `article_${articleId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedArticle))
-      );
-      
-      setTransactionStatus({
-        visible: true,
-        status: "success",
-        message: "FHE bias analysis completed!"
-      });
+      await requestBiasAnalysis(contract, articleId, trackerFor(entryId));
+      notifications.update(entryId, { status: "success", message: "Analysis requested" });
+      awaitDecryption(articleId);
       
       await loadArticles();
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 2000);
     } catch (e: any) {
-      setTransactionStatus({
-        visible: true,
-        status: "error",
-        message: "Analysis failed: " + (e.message || "Unknown error")
-      });
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 3000);
+      notifications.update(entryId, { status: "error", message: "Analysis failed: " + describeTxError(e) });
+    }
+  };
+
+  // Grants the analyst the counts they cannot read yet, then decrypts them
+  const decryptPrivateCounts = async () => {
+    if (!provider) return;
+    const contract = await getContractWithSigner();
+    setPrivateCounts(await decryptBiasCounts(contract, BIAS_CATEGORIES, txManager));
+  };
+
+  // Only the analyst who submitted an article is granted its features
+  const revealFeatures = async (articleId: number) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    try {
+      const contract = await getContractReadOnly(true);
+      if (!contract) return;
+      const article = await contract.articles(articleId);
+      const handles = [article.encryptedContent, article.encryptedSentiment, article.encryptedKeywords];
+      const plaintexts = await decryptForUser(await provider.getSigner(), handles);
+      const [content, sentiment, keywords] = handles.map(handle => plaintexts.get(handle));
+      if (content === undefined || sentiment === undefined || keywords === undefined) {
+        alert(`Article #${articleId} was submitted by another analyst, its features are not shared with you`);
+        return;
+      }
+      setRevealedFeatures(current => ({
+        ...current,
+        [articleId]: { content: Number(content), sentiment: Number(sentiment), keywords: Number(keywords) }
+      }));
+    } catch (e: any) {
+      alert("Decryption failed: " + describeTxError(e));
+    }
+  };
+
+  const retryActivity = (entry: ActivityEntry) => {
+    switch (entry.retry?.type) {
+      case "submission":
+        // The form still holds the draft of the failed submission
+        setShowAddModal(true);
+        break;
+      case "metadata":
+        retryMetadata(entry.retry.articleId);
+        break;
+      case "analysis":
+        analyzeBias(entry.retry.articleId);
+        break;
     }
   };
 
@@ -295,30 +412,26 @@ const App: React.FC = () => {
   });
 
   const renderBiasChart = () => {
-    const biasData = articles.filter(a => a.biasScore !== undefined).map(a => a.biasScore || 0);
-    if (biasData.length === 0) return null;
+    const analyzed = articles.filter(a => a.analysis?.isAnalyzed);
+    if (analyzed.length === 0) return null;
 
-    const avg = biasData.reduce((a, b) => a + b, 0) / biasData.length;
-    const max = Math.max(...biasData);
-    const min = Math.min(...biasData);
+    const counts = BIAS_CATEGORIES.map(category => analyzed.filter(a => a.analysis?.biasScore === category).length);
 
     return (
       <div className="bias-chart">
         <div className="chart-header">
-          <h3>Bias Score Distribution</h3>
+          <h3>Bias Category Distribution</h3>
           <div className="chart-stats">
-            <span>Avg: {avg.toFixed(1)}</span>
-            <span>Max: {max}</span>
-            <span>Min: {min}</span>
+            <span>Analyzed: {analyzed.length}</span>
           </div>
         </div>
         <div className="chart-bars">
-          {biasData.slice(0, 10).map((score, i) => (
-            <div key={i} className="bar-container">
+          {BIAS_CATEGORIES.map((category, i) => (
+            <div key={category} className="bar-container">
               <div 
                 className="bar" 
-                style={{ height: `${score}%` }}
-                data-tooltip={`Score: ${score}`}
+                style={{ height: `${(counts[i] / analyzed.length) * 100}%` }}
+                data-tooltip={`${category}: ${counts[i]}`}
               ></div>
             </div>
           ))}
@@ -343,9 +456,20 @@ const App: React.FC = () => {
         </div>
         
         <div className="header-actions">
+          <RpcStatus pool={rpcPool} />
           <WalletManager account={account} onConnect={onConnect} onDisconnect={onDisconnect} />
         </div>
       </header>
+
+      {account && walletChainId !== null && (
+        <NetworkBanner
+          walletChainId={walletChainId}
+          deploymentChainId={config.chainId}
+          onSwitch={() => switchWalletChain(getWalletProvider()!)}
+        />
+      )}
+
+      <PendingTransactions manager={txManager} />
       
       <main className="main-content">
         <div className="hero-section">
@@ -376,8 +500,8 @@ const App: React.FC = () => {
             <div className="stat-label">News Sources</div>
           </div>
           <div className="stat-card">
-            <div className="stat-value">{averageBias.toFixed(1)}</div>
-            <div className="stat-label">Avg Bias Score</div>
+            <div className="stat-value">{analyzedCount}</div>
+            <div className="stat-label">Bias Analyses</div>
           </div>
           <div className="stat-card">
             <div className="stat-value">100%</div>
@@ -441,7 +565,10 @@ const App: React.FC = () => {
               ) : (
                 filteredArticles.map(article => (
                   <div className="article-row" key={article.id}>
-                    <div className="cell source-cell">
+                    <div
+                      className="cell source-cell"
+                      title={article.publisher ? `Metadata written by ${article.publisher}` : "No metadata stored"}
+                    >
                       <div className="source-logo">{article.source.charAt(0)}</div>
                       {article.source}
                     </div>
@@ -454,22 +581,35 @@ const App: React.FC = () => {
                       {new Date(article.timestamp * 1000).toLocaleDateString()}
                     </div>
                     <div className="cell score-cell">
-                      {article.biasScore !== undefined ? (
-                        <div className={`bias-score ${article.biasScore < 33 ? 'low' : article.biasScore < 66 ? 'medium' : 'high'}`}>
-                          {article.biasScore}
+                      {article.analysis?.isAnalyzed ? (
+                        <div className={`bias-score ${biasLevel(article.analysis.biasScore)}`}>
+                          {article.analysis.biasScore}
                         </div>
                       ) : (
                         <span className="not-analyzed">Not analyzed</span>
                       )}
+                      {revealedFeatures[article.id] && (
+                        <div className="revealed-features" title="Decrypted for your account">
+                          Language {revealedFeatures[article.id].content} · Sentiment{" "}
+                          {revealedFeatures[article.id].sentiment} · Keywords {revealedFeatures[article.id].keywords}
+                        </div>
+                      )}
                     </div>
                     <div className="cell actions-cell">
-                      <button 
-                        className="action-btn"
-                        onClick={() => analyzeBias(article.id)}
-                        disabled={article.biasScore !== undefined}
-                      >
-                        {article.biasScore !== undefined ? "Analyzed" : "Analyze"}
-                      </button>
+                      <AnalyzeButton
+                        article={article}
+                        onAnalyze={() => analyzeBias(article.id)}
+                      />
+                      {account && !revealedFeatures[article.id] && (
+                        <button className="action-btn" onClick={() => revealFeatures(article.id)}>
+                          Decrypt
+                        </button>
+                      )}
+                      {article.metadataPending && (
+                        <button className="action-btn" onClick={() => retryMetadata(article.id)}>
+                          Store metadata
+                        </button>
+                      )}
                     </div>
                   </div>
                 ))
@@ -490,23 +630,55 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              <PendingAnalyses
+                articles={articles}
+                timeout={config.analysisTimeout}
+                canRetry={!!account}
+                onRetry={analyzeBias}
+              />
+
               {renderBiasChart()}
 
+              <PrivateCounts counts={privateCounts} connected={!!account} onDecrypt={decryptPrivateCounts} />
+
+              {(metadataIssues.length > 0 || migratedCount > 0 || legacyArticles.length > 0) && (
+                <div className="panel-card diagnostics-card">
+                  <h3>Metadata Diagnostics</h3>
+                  {migratedCount > 0 && (
+                    <p>{migratedCount} article(s) use an older metadata schema and were upgraded when read.</p>
+                  )}
+                  {legacyArticles.length > 0 && (
+                    <p>{legacyArticles.length} article(s) were stored before articles were submitted to NewsBiasFHE and have no encrypted features to analyze.</p>
+                  )}
+                  {legacyArticles.map(article => (
+                    <div className="diagnostic-item" key={article.key}>
+                      <strong>{article.metadata!.source}</strong>, {new Date(article.metadata!.timestamp * 1000).toLocaleDateString()}
+                      {article.metadata!.keywords.length > 0 && <div className="diagnostic-meta">{article.metadata!.keywords.join(", ")}</div>}
+                    </div>
+                  ))}
+                  {metadataIssues.map(issue => (
+                    <div className="diagnostic-item" key={issue.key}>
+                      <strong>{issue.label}</strong>: {issue.error}
+                      <div className="diagnostic-meta">
+                        written by {issue.sender.substring(0, 6)}...{issue.sender.substring(38)} in tx {issue.txHash.substring(0, 10)}...
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <ActivityPanel center={notifications} onRetry={retryActivity} />
+
               <div className="panel-card">
                 <h3>Bias Score Guide</h3>
+                <p>Combined score = (2 × loaded language + 3 × sentiment) / 5</p>
                 <div className="score-guide">
-                  <div className="guide-item">
-                    <div className="score-dot low"></div>
-                    <span>0-32: Minimal Bias</span>
-                  </div>
-                  <div className="guide-item">
-                    <div className="score-dot medium"></div>
-                    <span>33-65: Moderate Bias</span>
-                  </div>
-                  <div className="guide-item">
-                    <div className="score-dot high"></div>
-                    <span>66-100: Strong Bias</span>
-                  </div>
+                  {BIAS_THRESHOLDS.map(({ category, above }) => (
+                    <div className="guide-item" key={category}>
+                      <div className={`score-dot ${biasLevel(category)}`}></div>
+                      <span>{above < 0 ? "Otherwise" : `Above ${above}`}: {category}</span>
+                    </div>
+                  ))}
                 </div>
               </div>
             </div>
@@ -532,20 +704,7 @@ const App: React.FC = () => {
         />
       )}
       
-      {transactionStatus.visible && (
-        <div className="transaction-modal">
-          <div className={`transaction-content ${transactionStatus.status}`}>
-            <div className="transaction-icon">
-              {transactionStatus.status === "pending" && <div className="spinner"></div>}
-              {transactionStatus.status === "success" && "✓"}
-              {transactionStatus.status === "error" && "✗"}
-            </div>
-            <div className="transaction-message">
-              {transactionStatus.message}
-            </div>
-          </div>
-        </div>
-      )}
+      <Toasts center={notifications} />
   
       <footer className="app-footer">
         <div className="footer-content">
@@ -574,6 +733,27 @@ const App: React.FC = () => {
   );
 };
 
+interface AnalyzeButtonProps {
+  article: NewsArticle;
+  onAnalyze: () => void;
+}
+
+// A request the oracle has not answered can only be repeated once it is overdue
+const AnalyzeButton: React.FC<AnalyzeButtonProps> = ({ article, onAnalyze }) => {
+  if (article.analysis?.isAnalyzed) {
+    return <button className="action-btn" disabled>Analyzed</button>;
+  }
+  const pending = pendingAnalysis(article, Date.now() / 1000, config.analysisTimeout);
+  if (pending && !pending.overdue) {
+    return <button className="action-btn" disabled>Pending</button>;
+  }
+  return (
+    <button className="action-btn" onClick={onAnalyze}>
+      {pending ? "Retry" : "Analyze"}
+    </button>
+  );
+};
+
 interface ModalAddArticleProps {
   onSubmit: () => void; 
   onClose: () => void; 
@@ -597,6 +777,9 @@ const ModalAddArticle: React.FC<ModalAddArticleProps> = ({
     });
   };
 
+  // Local preview of what the contract will compute once the features are decrypted
+  const preview = articleData.content ? scoreFeatures(extractFeatures(articleData.content)) : null;
+
   const handleSubmit = () => {
     if (!articleData.source || !articleData.content) {
       alert("Please fill required fields");
@@ -652,6 +835,15 @@ const ModalAddArticle: React.FC<ModalAddArticleProps> = ({
               rows={6}
             />
           </div>
+          
+          {preview && (
+            <div className="form-group">
+              <label>Expected Analysis (computed locally, never published)</label>
+              <div className={`bias-score ${biasLevel(preview.biasScore)}`}>
+                {preview.biasScore} · {preview.comparisonResult} · score {preview.score}
+              </div>
+            </div>
+          )}
         </div>
         
         <div className="modal-footer">
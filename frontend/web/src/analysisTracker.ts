@@ -0,0 +1,45 @@
+// analysisTracker.ts
+//
+// Where each bias analysis stands between its AnalysisRequested log and the
+// oracle's AnalysisCompleted callback. The oracle answers in a transaction
+// of its own, so a request is only known to be stuck once it has gone
+// unanswered for longer than the configured timeout; it can then be made again.
+
+import type { AnalysisRequestRecord } from "./articleLogs";
+import type { BiasAnalysis } from "./newsBiasClient";
+
+export interface PendingAnalysis {
+  articleId: number;
+  request: AnalysisRequestRecord;
+  // Seconds since the requesting block
+  elapsed: number;
+  // Unanswered for longer than the timeout, a retry is offered
+  overdue: boolean;
+}
+
+export interface TrackedArticle {
+  id: number;
+  request?: AnalysisRequestRecord;
+  analysis?: BiasAnalysis;
+}
+
+export function pendingAnalysis(article: TrackedArticle, now: number, timeout: number): PendingAnalysis | undefined {
+  if (!article.request || article.analysis?.isAnalyzed) return undefined;
+  const elapsed = Math.max(0, Math.floor(now - article.request.requestedAt));
+  return { articleId: article.id, request: article.request, elapsed, overdue: elapsed > timeout };
+}
+
+// Unanswered requests, oldest first
+export function pendingAnalyses(articles: TrackedArticle[], now: number, timeout: number): PendingAnalysis[] {
+  return articles
+    .map(article => pendingAnalysis(article, now, timeout))
+    .filter((pending): pending is PendingAnalysis => pending !== undefined)
+    .sort((a, b) => a.request.requestedAt - b.request.requestedAt);
+}
+
+export function formatElapsed(seconds: number): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${pad(seconds % 60)}s`;
+  return `${Math.floor(seconds / 3600)}h ${pad(Math.floor(seconds / 60) % 60)}m`;
+}
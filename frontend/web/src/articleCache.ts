@@ -0,0 +1,190 @@
+// articleCache.ts
+//
+// Persists the article log state in IndexedDB so the dashboard renders from
+// cache and later syncs only fetch the blocks after the last synced one. The
+// cache is keyed by the deployment in config.json; entries of any other
+// deployment are dropped when the cache is read. The hash of the last synced
+// block is kept too, so a restarted local chain with the same addresses, or a
+// reorg deeper than CACHE_CONFIRMATIONS, discards the cache.
+
+import type { NewsBiasFHE, UniversalAdapter } from "../../../types";
+import {
+  AnalysisRequestRecord,
+  ArticleLogState,
+  MetadataRecord,
+  SubmissionRecord,
+  cloneLogState,
+  emptyLogState,
+  fetchMissingAnalyses,
+  syncArticleLogs
+} from "./articleLogs";
+import { config } from "./contract";
+import { BiasAnalysis } from "./newsBiasClient";
+
+const DB_NAME = "newsbias";
+const DB_VERSION = 1;
+const STORE = "articleLogs";
+// Raised whenever the sync starts indexing logs it skipped before, an older cache would hide them in its blocks
+const CACHE_FORMAT = 2;
+
+// Blocks below the head that can still be reorganised; only older ones are cached
+export const CACHE_CONFIRMATIONS = 12;
+
+export interface CachedArticles {
+  state: ArticleLogState;
+  syncedBlockHash: string;
+}
+
+interface CachedLogState {
+  deployment: string;
+  format: number;
+  syncedBlock: number;
+  syncedBlockHash: string;
+  submissions: SubmissionRecord[];
+  requests: AnalysisRequestRecord[];
+  analyzed: number[];
+  metadata: MetadataRecord[];
+  analyses: [number, BiasAnalysis][];
+  savedAt: number;
+}
+
+export function deploymentKey(): string {
+  return [config.chainId, config.contractAddress, config.metadataAddress, config.fromBlock]
+    .map(part => String(part).toLowerCase())
+    .join(":");
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "deployment" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function serialize({ state, syncedBlockHash }: CachedArticles): CachedLogState {
+  return {
+    deployment: deploymentKey(),
+    format: CACHE_FORMAT,
+    syncedBlock: state.syncedBlock,
+    syncedBlockHash,
+    submissions: [...state.submissions.values()],
+    requests: [...state.requests.values()],
+    analyzed: [...state.analyzed],
+    metadata: [...state.metadata.values()],
+    analyses: [...state.analyses.entries()],
+    savedAt: Date.now()
+  };
+}
+
+function deserialize(cached: CachedLogState): CachedArticles {
+  return {
+    state: {
+      syncedBlock: cached.syncedBlock,
+      submissions: new Map(cached.submissions.map(s => [s.articleId, s])),
+      requests: new Map(cached.requests.map(r => [r.articleId, r])),
+      analyzed: new Set(cached.analyzed),
+      metadata: new Map(cached.metadata.map(m => [m.key, m])),
+      analyses: new Map(cached.analyses)
+    },
+    syncedBlockHash: cached.syncedBlockHash
+  };
+}
+
+/**
+ * Cached log state of the configured deployment, if any. A missing or
+ * unusable IndexedDB (private browsing, blocked storage) reads as an empty
+ * cache.
+ */
+export async function readCachedArticles(): Promise<CachedArticles | undefined> {
+  try {
+    const current = deploymentKey();
+    const keys = await withStore("readonly", store => store.getAllKeys());
+    const stale = keys.filter(key => key !== current);
+    if (stale.length > 0) {
+      await withStore("readwrite", store => {
+        stale.forEach(key => store.delete(key));
+        return store.count();
+      });
+    }
+    const cached = await withStore<CachedLogState | undefined>("readonly", store => store.get(current));
+    // Caches without a format lack the legacy metadata keys, the oldest ones the analysis requests too
+    return cached?.format === CACHE_FORMAT ? deserialize(cached) : undefined;
+  } catch (e) {
+    console.warn("Article cache unavailable:", e);
+    return undefined;
+  }
+}
+
+export async function writeCachedArticles(cached: CachedArticles): Promise<void> {
+  try {
+    await withStore("readwrite", store => store.put(serialize(cached)));
+  } catch (e) {
+    console.warn("Failed to write article cache:", e);
+  }
+}
+
+/**
+ * Brings `cached` (or a fresh state from config.fromBlock) up to the chain
+ * head. Only confirmed blocks go into the cache, the unconfirmed tail is
+ * synced into a copy that is returned but not stored, so a reorg can never
+ * leave dropped logs behind in the cache.
+ */
+export async function syncCachedArticleLogs(
+  newsBias: NewsBiasFHE,
+  metadata: UniversalAdapter | null,
+  cached: CachedArticles | undefined
+): Promise<ArticleLogState> {
+  const provider = newsBias.runner?.provider;
+  if (!provider) {
+    throw new Error("NewsBiasFHE contract has no provider");
+  }
+  // On the quorum provider this is the newest block the quorum has reached, so the log reads up to it are covered
+  const head = await provider.getBlockNumber();
+
+  let state = emptyLogState(config.fromBlock);
+  if (cached) {
+    const block = await provider.getBlock(cached.state.syncedBlock);
+    if (block?.hash === cached.syncedBlockHash) {
+      state = cached.state;
+    } else {
+      console.warn(`Block ${cached.state.syncedBlock} changed since the article cache was written, resyncing`);
+    }
+  }
+
+  const confirmed = head - CACHE_CONFIRMATIONS;
+  if (confirmed > state.syncedBlock) {
+    await syncArticleLogs(newsBias, metadata, state, confirmed);
+    await fetchMissingAnalyses(newsBias, state);
+    const block = await provider.getBlock(confirmed);
+    if (block?.hash) {
+      await writeCachedArticles({ state, syncedBlockHash: block.hash });
+    }
+  }
+
+  const latest = cloneLogState(state);
+  await syncArticleLogs(newsBias, metadata, latest, head);
+  await fetchMissingAnalyses(newsBias, latest);
+  return latest;
+}
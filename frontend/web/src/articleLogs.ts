@@ -0,0 +1,255 @@
+// articleLogs.ts
+//
+// Rebuilds the article set from contract logs instead of one getData call per
+// article: ArticleSubmitted, AnalysisRequested and AnalysisCompleted from
+// NewsBiasFHE, DataStored from the metadata store. Every DataStored log is a full write, so the latest
+// one per key is the current value, and its sender tells who wrote it.
+
+import { ethers } from "ethers";
+import type { NewsBiasFHE, UniversalAdapter } from "../../../types";
+import { ArticleRecord, parseArticlePayload } from "./articleSchema";
+import { BiasAnalysis, getBiasAnalysis } from "./newsBiasClient";
+
+const METADATA_KEY = /^article_(\d+)$/;
+// Written by the dashboard before articles were submitted to NewsBiasFHE: article_<milliseconds>-<random>
+const LEGACY_METADATA_KEY = /^article_\d+-[a-z0-9]+$/;
+
+// Ranges below this many blocks are not split further when the RPC rejects a query
+const MIN_QUERY_SPAN = 1000;
+
+export interface LogPosition {
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+}
+
+export interface MetadataRecord extends LogPosition {
+  key: string;
+  value: string;
+  sender: string;
+}
+
+export interface SubmissionRecord extends LogPosition {
+  articleId: number;
+  timestamp: number;
+}
+
+export interface AnalysisRequestRecord extends LogPosition {
+  articleId: number;
+  // Timestamp of the requesting block, the oracle answers some time after it
+  requestedAt: number;
+  // Requests made for the article, a retry after a missing callback adds one
+  attempts: number;
+}
+
+export interface ArticleLogState {
+  // Last block included in the state
+  syncedBlock: number;
+  submissions: Map<number, SubmissionRecord>;
+  // Latest analysis request per article
+  requests: Map<number, AnalysisRequestRecord>;
+  analyzed: Set<number>;
+  metadata: Map<string, MetadataRecord>;
+  // Results of completed analyses, which the contract never changes afterwards
+  analyses: Map<number, BiasAnalysis>;
+}
+
+export interface IndexedArticle {
+  id: number;
+  timestamp: number;
+  submission: SubmissionRecord;
+  metadata?: ArticleRecord;
+  // Provenance of the metadata: who wrote the latest value and where
+  metadataRecord?: MetadataRecord;
+  // Why the stored metadata was rejected, when it was
+  metadataIssue?: string;
+  // Schema version the metadata was upgraded from
+  migratedFrom?: number;
+  request?: AnalysisRequestRecord;
+  analysis?: BiasAnalysis;
+}
+
+// Metadata stored under a legacy key, it has no article on chain
+export interface LegacyArticle {
+  key: string;
+  metadataRecord: MetadataRecord;
+  metadata?: ArticleRecord;
+  metadataIssue?: string;
+  migratedFrom?: number;
+}
+
+export function emptyLogState(fromBlock: number): ArticleLogState {
+  return {
+    syncedBlock: fromBlock - 1,
+    submissions: new Map(),
+    requests: new Map(),
+    analyzed: new Set(),
+    metadata: new Map(),
+    analyses: new Map()
+  };
+}
+
+export function cloneLogState(state: ArticleLogState): ArticleLogState {
+  return {
+    syncedBlock: state.syncedBlock,
+    submissions: new Map(state.submissions),
+    requests: new Map(state.requests),
+    analyzed: new Set(state.analyzed),
+    metadata: new Map(state.metadata),
+    analyses: new Map(state.analyses)
+  };
+}
+
+export function metadataKey(articleId: number): string {
+  return `article_${articleId}`;
+}
+
+// Article id of an article_<id> key, undefined for legacy and foreign keys
+export function articleIdOfKey(key: string): number | undefined {
+  const match = METADATA_KEY.exec(key);
+  return match ? Number(match[1]) : undefined;
+}
+
+export function isLegacyMetadataKey(key: string): boolean {
+  return LEGACY_METADATA_KEY.test(key);
+}
+
+const isLater = (a: LogPosition, b: LogPosition) =>
+  a.blockNumber > b.blockNumber || (a.blockNumber === b.blockNumber && a.logIndex > b.logIndex);
+
+const position = (log: ethers.Log): LogPosition => ({
+  blockNumber: log.blockNumber,
+  logIndex: log.index,
+  txHash: log.transactionHash
+});
+
+/**
+ * Runs `query` over [fromBlock, toBlock], halving the range whenever the RPC
+ * rejects it (block span or result size limits differ per provider).
+ */
+export async function queryInRanges<T>(
+  query: (fromBlock: number, toBlock: number) => Promise<T[]>,
+  fromBlock: number,
+  toBlock: number
+): Promise<T[]> {
+  if (fromBlock > toBlock) return [];
+  try {
+    return await query(fromBlock, toBlock);
+  } catch (e) {
+    if (toBlock - fromBlock < MIN_QUERY_SPAN) throw e;
+    const middle = fromBlock + Math.floor((toBlock - fromBlock) / 2);
+    const first = await queryInRanges(query, fromBlock, middle);
+    const second = await queryInRanges(query, middle + 1, toBlock);
+    return first.concat(second);
+  }
+}
+
+/**
+ * Applies the logs of the blocks after `state.syncedBlock` up to `toBlock` to
+ * `state`. The metadata store is optional, it may not be deployed.
+ */
+export async function syncArticleLogs(
+  newsBias: NewsBiasFHE,
+  metadata: UniversalAdapter | null,
+  state: ArticleLogState,
+  toBlock: number
+): Promise<ArticleLogState> {
+  const fromBlock = state.syncedBlock + 1;
+  const [submitted, requested, completed, stored] = await Promise.all([
+    queryInRanges((from, to) => newsBias.queryFilter(newsBias.filters.ArticleSubmitted(), from, to), fromBlock, toBlock),
+    queryInRanges((from, to) => newsBias.queryFilter(newsBias.filters.AnalysisRequested(), from, to), fromBlock, toBlock),
+    queryInRanges((from, to) => newsBias.queryFilter(newsBias.filters.AnalysisCompleted(), from, to), fromBlock, toBlock),
+    metadata
+      ? queryInRanges((from, to) => metadata.queryFilter(metadata.filters.DataStored(), from, to), fromBlock, toBlock)
+      : Promise.resolve([])
+  ]);
+
+  for (const log of submitted) {
+    const articleId = Number(log.args.articleId);
+    state.submissions.set(articleId, { ...position(log), articleId, timestamp: Number(log.args.timestamp) });
+  }
+  // AnalysisRequested carries no timestamp, it comes from the block
+  const logPerBlock = new Map(requested.map(log => [log.blockNumber, log]));
+  const timestamps = new Map(
+    await Promise.all(
+      [...logPerBlock].map(async ([blockNumber, log]) => [blockNumber, (await log.getBlock()).timestamp] as const)
+    )
+  );
+  for (const log of requested) {
+    const articleId = Number(log.args.articleId);
+    const previous = state.requests.get(articleId);
+    const record: AnalysisRequestRecord = {
+      ...position(log),
+      articleId,
+      requestedAt: timestamps.get(log.blockNumber)!,
+      attempts: (previous?.attempts ?? 0) + 1
+    };
+    if (!previous || isLater(record, previous)) {
+      state.requests.set(articleId, record);
+    }
+  }
+  for (const log of completed) {
+    state.analyzed.add(Number(log.args.articleId));
+  }
+  for (const log of stored) {
+    // The store is a shared key-value contract, other keys are not ours
+    if (!METADATA_KEY.test(log.args.key) && !isLegacyMetadataKey(log.args.key)) continue;
+    const record: MetadataRecord = {
+      ...position(log),
+      key: log.args.key,
+      value: log.args.value,
+      sender: log.args.sender
+    };
+    const previous = state.metadata.get(record.key);
+    if (!previous || isLater(record, previous)) {
+      state.metadata.set(record.key, record);
+    }
+  }
+
+  state.syncedBlock = toBlock;
+  return state;
+}
+
+/**
+ * Reads the results of completed analyses that are not in `state` yet.
+ * AnalysisCompleted carries the article id alone, so this is the only contract
+ * read besides the logs; the reads run in parallel.
+ */
+export async function fetchMissingAnalyses(newsBias: NewsBiasFHE, state: ArticleLogState): Promise<void> {
+  const missing = [...state.analyzed].filter(id => !state.analyses.has(id));
+  const analyses = await Promise.all(missing.map(id => getBiasAnalysis(newsBias, id)));
+  missing.forEach((id, i) => state.analyses.set(id, analyses[i]));
+}
+
+function parseMetadata(record: MetadataRecord): Pick<IndexedArticle, "metadata" | "metadataIssue" | "migratedFrom"> {
+  const parsed = parseArticlePayload(record.value);
+  return parsed.ok === true
+    ? { metadata: parsed.record, migratedFrom: parsed.migratedFrom }
+    : { metadataIssue: parsed.error };
+}
+
+// Joins the log state into articles, newest first
+export function joinArticles(state: ArticleLogState): IndexedArticle[] {
+  return [...state.submissions.values()]
+    .map(submission => {
+      const metadataRecord = state.metadata.get(metadataKey(submission.articleId));
+      return {
+        id: submission.articleId,
+        timestamp: submission.timestamp,
+        submission,
+        metadataRecord,
+        request: state.requests.get(submission.articleId),
+        analysis: state.analyses.get(submission.articleId),
+        ...(metadataRecord && parseMetadata(metadataRecord))
+      };
+    })
+    .sort((a, b) => b.timestamp - a.timestamp || b.id - a.id);
+}
+
+// Metadata under legacy keys, newest write first
+export function joinLegacyArticles(state: ArticleLogState): LegacyArticle[] {
+  return [...state.metadata.values()]
+    .filter(record => isLegacyMetadataKey(record.key))
+    .map(record => ({ key: record.key, metadataRecord: record, ...parseMetadata(record) }))
+    .sort((a, b) => (isLater(a.metadataRecord, b.metadataRecord) ? -1 : 1));
+}
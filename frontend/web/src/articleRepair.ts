@@ -0,0 +1,91 @@
+// articleRepair.ts
+//
+// Consistency check between the article index (ArticleSubmitted logs) and the
+// metadata store. Submitting an article and storing its metadata are two
+// transactions, so the second one can fail or land under a wrong id. Orphaned
+// `article_*` keys are matched back to articles without metadata by the
+// account that wrote them and the submission time recorded in their payload.
+
+import { ArticleLogState, MetadataRecord, SubmissionRecord, articleIdOfKey, metadataKey } from "./articleLogs";
+import { parseArticlePayload } from "./articleSchema";
+
+// Largest accepted gap between a payload's timestamp and the block timestamp of the submission
+export const DEFAULT_MAX_DRIFT_SECONDS = 3600;
+
+export interface OrphanedMetadata {
+  record: MetadataRecord;
+  articleId: number;
+}
+
+export interface Relink {
+  articleId: number;
+  orphan: OrphanedMetadata;
+  drift: number;
+}
+
+export interface IndexReport {
+  // Articles on chain without a metadata key
+  unlinked: SubmissionRecord[];
+  // article_<id> keys whose id was never submitted and whose payload is not linked elsewhere
+  orphaned: OrphanedMetadata[];
+  relinks: Relink[];
+}
+
+/**
+ * Compares the index with the metadata keys and proposes re-links.
+ * `submitters` maps an article id to the account that sent its submission; an
+ * orphan is only re-linked to an article of the same account, and each orphan
+ * and article is used at most once, closest timestamps first.
+ */
+export function checkArticleIndex(
+  state: ArticleLogState,
+  submitters: Map<number, string>,
+  maxDriftSeconds = DEFAULT_MAX_DRIFT_SECONDS
+): IndexReport {
+  const unlinked = [...state.submissions.values()]
+    .filter(s => !state.metadata.has(metadataKey(s.articleId)))
+    .sort((a, b) => a.articleId - b.articleId);
+  // Keys cannot be deleted, so an orphan whose payload was already copied to an article counts as re-linked
+  const linkedValues = new Set(
+    [...state.metadata.values()]
+      .filter(record => {
+        const articleId = articleIdOfKey(record.key);
+        return articleId !== undefined && state.submissions.has(articleId);
+      })
+      .map(record => record.value)
+  );
+  // Legacy keys carry no article id, they are listed on their own
+  const orphaned = [...state.metadata.values()]
+    .map(record => ({ record, articleId: articleIdOfKey(record.key) }))
+    .filter((o): o is OrphanedMetadata => o.articleId !== undefined)
+    .filter(o => !state.submissions.has(o.articleId) && !linkedValues.has(o.record.value))
+    .sort((a, b) => a.articleId - b.articleId);
+
+  const candidates: Relink[] = [];
+  for (const orphan of orphaned) {
+    // Payloads without a valid submission time cannot be matched
+    const parsed = parseArticlePayload(orphan.record.value);
+    if (!parsed.ok) continue;
+    const timestamp = parsed.record.timestamp;
+    for (const submission of unlinked) {
+      const submitter = submitters.get(submission.articleId);
+      if (!submitter || submitter.toLowerCase() !== orphan.record.sender.toLowerCase()) continue;
+      const drift = Math.abs(timestamp - submission.timestamp);
+      if (drift <= maxDriftSeconds) {
+        candidates.push({ articleId: submission.articleId, orphan, drift });
+      }
+    }
+  }
+
+  const relinks: Relink[] = [];
+  const linkedArticles = new Set<number>();
+  const usedOrphans = new Set<string>();
+  for (const candidate of candidates.sort((a, b) => a.drift - b.drift || a.articleId - b.articleId)) {
+    if (linkedArticles.has(candidate.articleId) || usedOrphans.has(candidate.orphan.record.key)) continue;
+    linkedArticles.add(candidate.articleId);
+    usedOrphans.add(candidate.orphan.record.key);
+    relinks.push(candidate);
+  }
+
+  return { unlinked, orphaned, relinks: relinks.sort((a, b) => a.articleId - b.articleId) };
+}
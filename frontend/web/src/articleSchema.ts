@@ -0,0 +1,148 @@
+// articleSchema.ts
+//
+// Versioned schema of the public article metadata stored under article_<id>.
+// Unlike the payloads of the first dashboard, it holds neither the article
+// text nor a bias score. The text was stored base64-encoded, readable by
+// anyone, while the contract only keeps the features extracted from it, and
+// encrypted. The score is public once the oracle answers, but getBiasAnalysis
+// is the one place it is read from: the metadata is written at submission,
+// before there is a score, and a copy could disagree with the contract.
+// Payloads are validated on read and older versions are upgraded step by step
+// to the current one.
+
+import { ethers } from "ethers";
+import { FEATURE_MODEL_VERSION } from "./features";
+import { SCORING_MODEL_VERSION } from "./scoring";
+
+export const ARTICLE_SCHEMA_VERSION = 1;
+
+const MAX_SOURCE_LENGTH = 200;
+const MAX_KEYWORDS = 20;
+const MAX_KEYWORD_LENGTH = 64;
+
+export interface ArticleRecord {
+  version: typeof ARTICLE_SCHEMA_VERSION;
+  source: string;
+  // Unix seconds at which the publisher submitted the article
+  timestamp: number;
+  keywords: string[];
+  // Models that produced the encrypted features and that classify them, 0 when unknown
+  featureModelVersion: number;
+  scoringModelVersion: number;
+}
+
+export type ParsedArticlePayload =
+  | { ok: true; record: ArticleRecord; migratedFrom?: number }
+  | { ok: false; error: string };
+
+export class ArticleSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArticleSchemaError";
+  }
+}
+
+type Payload = Record<string, unknown>;
+
+// Upgrades a payload of version `n` to version `n + 1`
+const MIGRATIONS: Record<number, (payload: Payload) => Payload> = {
+  // Unversioned payloads written before the schema: { source, timestamp, keywords },
+  // plus the content and a random placeholder biasScore under legacy keys, both dropped by validate()
+  0: payload => ({
+    ...payload,
+    version: 1,
+    keywords: payload.keywords ?? [],
+    featureModelVersion: 0,
+    scoringModelVersion: 0
+  })
+};
+
+const isUint = (value: unknown): value is number =>
+  typeof value === "number" && Number.isSafeInteger(value) && value >= 0;
+
+function validate(payload: Payload): ArticleRecord {
+  const { source, timestamp, keywords, featureModelVersion, scoringModelVersion } = payload;
+
+  if (typeof source !== "string" || source.trim() === "") {
+    throw new ArticleSchemaError("source must be a non-empty string");
+  }
+  if (source.length > MAX_SOURCE_LENGTH) {
+    throw new ArticleSchemaError(`source is longer than ${MAX_SOURCE_LENGTH} characters`);
+  }
+  if (!isUint(timestamp)) {
+    throw new ArticleSchemaError("timestamp must be a non-negative integer of seconds");
+  }
+  if (!Array.isArray(keywords) || !keywords.every(k => typeof k === "string")) {
+    throw new ArticleSchemaError("keywords must be an array of strings");
+  }
+  if (keywords.length > MAX_KEYWORDS || keywords.some(k => k.length > MAX_KEYWORD_LENGTH)) {
+    throw new ArticleSchemaError(`keywords exceed ${MAX_KEYWORDS} entries of ${MAX_KEYWORD_LENGTH} characters`);
+  }
+  if (!isUint(featureModelVersion) || !isUint(scoringModelVersion)) {
+    throw new ArticleSchemaError("model versions must be non-negative integers");
+  }
+
+  return {
+    version: ARTICLE_SCHEMA_VERSION,
+    source,
+    timestamp,
+    keywords,
+    featureModelVersion,
+    scoringModelVersion
+  };
+}
+
+/**
+ * Validates a decoded payload and upgrades it to the current version. Throws
+ * ArticleSchemaError when it is malformed or newer than this client.
+ */
+export function upgradeArticlePayload(value: unknown): { record: ArticleRecord; migratedFrom?: number } {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new ArticleSchemaError("payload is not a JSON object");
+  }
+
+  let payload = value as Payload;
+  const initial = payload.version === undefined ? 0 : payload.version;
+  if (!isUint(initial)) {
+    throw new ArticleSchemaError(`invalid version ${JSON.stringify(payload.version)}`);
+  }
+  if (initial > ARTICLE_SCHEMA_VERSION) {
+    throw new ArticleSchemaError(`version ${initial} is newer than this client (${ARTICLE_SCHEMA_VERSION})`);
+  }
+
+  for (let version = initial; version < ARTICLE_SCHEMA_VERSION; version++) {
+    payload = MIGRATIONS[version](payload);
+  }
+  const record = validate(payload);
+  return initial === ARTICLE_SCHEMA_VERSION ? { record } : { record, migratedFrom: initial };
+}
+
+// Decodes the stored bytes (UTF-8 JSON) without throwing
+export function parseArticlePayload(bytes: string): ParsedArticlePayload {
+  let value: unknown;
+  try {
+    value = JSON.parse(ethers.toUtf8String(bytes));
+  } catch (e: any) {
+    return { ok: false, error: `not UTF-8 JSON: ${e.message}` };
+  }
+  try {
+    return { ok: true, ...upgradeArticlePayload(value) };
+  } catch (e: any) {
+    if (e instanceof ArticleSchemaError) return { ok: false, error: e.message };
+    throw e;
+  }
+}
+
+export function createArticleRecord(fields: { source: string; keywords: string[]; timestamp?: number }): ArticleRecord {
+  return validate({
+    source: fields.source.trim(),
+    timestamp: fields.timestamp ?? Math.floor(Date.now() / 1000),
+    keywords: fields.keywords,
+    featureModelVersion: FEATURE_MODEL_VERSION,
+    scoringModelVersion: SCORING_MODEL_VERSION
+  });
+}
+
+export function encodeArticleRecord(record: ArticleRecord): string {
+  return JSON.stringify(record);
+}
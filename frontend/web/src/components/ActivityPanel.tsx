@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityEntry, NotificationCenter } from '../notifications';
+
+interface ActivityPanelProps {
+  center: NotificationCenter;
+  onRetry: (entry: ActivityEntry) => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'medium' });
+
+// Every submission, analysis request, decryption and failure, kept across reloads
+export default function ActivityPanel({ center, onRetry }: ActivityPanelProps) {
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+
+  useEffect(() => center.subscribe(state => setEntries(state.entries)), [center]);
+
+  return (
+    <div className="panel-card activity-card">
+      <div className="activity-header">
+        <h3>Activity</h3>
+        {entries.some(entry => entry.status !== 'pending') && (
+          <button className="text-btn" onClick={() => center.clear()}>Clear</button>
+        )}
+      </div>
+
+      {entries.length === 0 && <p className="activity-empty">No activity yet</p>}
+
+      {entries.map(entry => (
+        <div className={`activity-item ${entry.status}`} key={entry.id}>
+          <div className="activity-title">
+            <span className={`activity-dot ${entry.status}`}></span>
+            {entry.title}
+          </div>
+          <div className="activity-message">{entry.message}</div>
+          <div className="activity-meta">
+            <span>{formatTime(entry.timestamp)}</span>
+            {entry.txHash && (
+              <span className="activity-hash" title={entry.txHash}>
+                tx {entry.txHash.substring(0, 10)}...
+              </span>
+            )}
+            {entry.status === 'error' && entry.retry && (
+              <button className="text-btn" onClick={() => onRetry(entry)}>Retry</button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import React, { useState } from 'react';
+import { chainName } from '../networks';
+
+interface NetworkBannerProps {
+  walletChainId: number;
+  deploymentChainId: number;
+  onSwitch: () => Promise<void>;
+}
+
+// Shown while the wallet is on another chain than the deployment, transactions would go nowhere
+export default function NetworkBanner({ walletChainId, deploymentChainId, onSwitch }: NetworkBannerProps) {
+  const [switching, setSwitching] = useState(false);
+
+  if (walletChainId === deploymentChainId) return null;
+
+  const switchChain = async () => {
+    setSwitching(true);
+    try {
+      await onSwitch();
+    } catch (e) {
+      console.error('Error switching network:', e);
+    } finally {
+      setSwitching(false);
+    }
+  };
+
+  return (
+    <div className="network-banner">
+      <span>
+        Your wallet is connected to <strong>{chainName(walletChainId)}</strong>, but this deployment lives on{' '}
+        <strong>{chainName(deploymentChainId)}</strong>.
+      </span>
+      <button className="network-banner-btn" onClick={switchChain} disabled={switching}>
+        {switching ? 'Switching...' : `Switch to ${chainName(deploymentChainId)}`}
+      </button>
+    </div>
+  );
+}
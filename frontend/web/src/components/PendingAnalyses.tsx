@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from 'react';
+import { TrackedArticle, formatElapsed, pendingAnalyses } from '../analysisTracker';
+
+interface PendingAnalysesProps {
+  articles: TrackedArticle[];
+  // Seconds before an unanswered request is flagged
+  timeout: number;
+  canRetry: boolean;
+  onRetry: (articleId: number) => void;
+}
+
+// Analysis requests the decryption oracle has not answered yet, with their age
+export default function PendingAnalyses({ articles, timeout, canRetry, onRetry }: PendingAnalysesProps) {
+  const [now, setNow] = useState(() => Date.now() / 1000);
+  const pending = pendingAnalyses(articles, now, timeout);
+  const waiting = pending.length > 0;
+
+  useEffect(() => {
+    if (!waiting) return;
+    setNow(Date.now() / 1000);
+    const timer = setInterval(() => setNow(Date.now() / 1000), 1000);
+    return () => clearInterval(timer);
+  }, [waiting]);
+
+  if (!waiting) return null;
+
+  return (
+    <div className="panel-card pending-analyses-card">
+      <h3>Pending Analyses</h3>
+      {pending.map(({ articleId, request, elapsed, overdue }) => (
+        <div className={`pending-analysis${overdue ? ' overdue' : ''}`} key={articleId}>
+          <div className="pending-analysis-title">
+            <span>Article #{articleId}</span>
+            <span className="pending-analysis-elapsed">{formatElapsed(elapsed)}</span>
+          </div>
+          <div className="pending-analysis-meta">
+            {overdue ? `No oracle callback within ${formatElapsed(timeout)}` : 'Waiting for the decryption oracle'}
+            {request.attempts > 1 && `, attempt ${request.attempts}`}
+            <span title={request.txHash}> · tx {request.txHash.substring(0, 10)}...</span>
+          </div>
+          {overdue && (
+            <button className="action-btn" onClick={() => onRetry(articleId)} disabled={!canRetry}>
+              Retry
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
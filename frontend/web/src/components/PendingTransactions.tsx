@@ -0,0 +1,36 @@
+import React, { useEffect, useState } from 'react';
+import { TrackedTx, TxManager } from '../txManager';
+
+interface PendingTransactionsProps {
+  manager: TxManager;
+}
+
+const shortHash = (hash: string) => `${hash.substring(0, 10)}...${hash.substring(hash.length - 6)}`;
+
+const describe = (tx: TrackedTx, confirmations: number) => {
+  if (tx.status === 'submitted') return 'Waiting to be mined';
+  return `Mined in block ${tx.blockNumber}, ${tx.confirmations}/${confirmations} confirmations`;
+};
+
+// Transactions sent but not confirmed yet, including those resumed after a reload
+export default function PendingTransactions({ manager }: PendingTransactionsProps) {
+  const [txs, setTxs] = useState<TrackedTx[]>([]);
+
+  useEffect(() => manager.subscribe(setTxs), [manager]);
+
+  const pending = txs.filter(tx => tx.status === 'submitted' || tx.status === 'mined');
+  if (pending.length === 0) return null;
+
+  return (
+    <div className="pending-transactions">
+      {pending.map(tx => (
+        <div className={`pending-tx ${tx.status}`} key={tx.id}>
+          <div className="spinner small"></div>
+          <span className="pending-tx-label">{tx.label}</span>
+          <span className="pending-tx-status">{describe(tx, manager.confirmations)}</span>
+          <span className="pending-tx-hash" title={tx.hash}>{shortHash(tx.hash)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { BIAS_CATEGORIES, biasLevel } from '../scoring';
+import { describeTxError } from '../preflight';
+
+interface PrivateCountsProps {
+  // Decrypted count per category, undefined where the account has no access
+  counts: Record<string, number | undefined> | null;
+  connected: boolean;
+  onDecrypt: () => Promise<void>;
+}
+
+// The encrypted per-category counts, decrypted for the connected analyst alone
+export default function PrivateCounts({ counts, connected, onDecrypt }: PrivateCountsProps) {
+  const [decrypting, setDecrypting] = useState(false);
+  const [error, setError] = useState('');
+
+  const decrypt = async () => {
+    setDecrypting(true);
+    setError('');
+    try {
+      await onDecrypt();
+    } catch (e) {
+      setError(`Decryption failed: ${describeTxError(e)}`);
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  return (
+    <div className="panel-card private-counts-card">
+      <h3>Encrypted Bias Counts</h3>
+      <p>Analysts grant themselves the on-chain counts and decrypt them for their own account, nothing is published.</p>
+      {counts && (
+        <div className="score-guide">
+          {BIAS_CATEGORIES.map(category => (
+            <div className="guide-item" key={category}>
+              <div className={`score-dot ${biasLevel(category)}`}></div>
+              <span>{category}</span>
+              <strong className="private-count">{counts[category] ?? 'No access'}</strong>
+            </div>
+          ))}
+        </div>
+      )}
+      {error && <p className="private-error">{error}</p>}
+      <button className="action-btn" onClick={decrypt} disabled={!connected || decrypting}>
+        {decrypting ? 'Decrypting...' : counts ? 'Decrypt again' : 'Decrypt with wallet'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { PoolHealth, RpcPool } from '../rpcPool';
+import { chainName } from '../networks';
+
+interface RpcStatusProps {
+  pool: RpcPool;
+}
+
+const STATE_LABELS: Record<string, string> = {
+  unknown: 'Connecting',
+  healthy: 'Healthy',
+  degraded: 'Degraded',
+  down: 'Down'
+};
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+// Small header indicator of the read endpoints' health, with per-endpoint details on hover
+export default function RpcStatus({ pool }: RpcStatusProps) {
+  const [health, setHealth] = useState<PoolHealth>(() => pool.health());
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => pool.subscribe(setHealth), [pool]);
+
+  return (
+    <div
+      className="rpc-status"
+      onMouseEnter={() => setOpen(true)}
+      onMouseLeave={() => setOpen(false)}
+      onClick={() => setOpen(!open)}
+    >
+      <span className={`rpc-dot ${health.state}`}></span>
+      <span className="rpc-label">{chainName(health.chainId)}</span>
+
+      {open && (
+        <div className="rpc-details">
+          <div className="rpc-details-title">
+            RPC {STATE_LABELS[health.state]}
+            {health.quorum > 1 && <span> · quorum {health.quorum}/{health.endpoints.length}</span>}
+          </div>
+          {health.endpoints.map(endpoint => (
+            <div className="rpc-endpoint" key={endpoint.url}>
+              <span className={`rpc-dot ${endpoint.state}`}></span>
+              <span className="rpc-host">{hostOf(endpoint.url)}</span>
+              <span className="rpc-metrics">
+                {endpoint.latencyMs === null ? '–' : `${Math.round(endpoint.latencyMs)} ms`}
+                {' · '}
+                {Math.round(endpoint.errorRate * 100)}% errors
+              </span>
+              {endpoint.lastError && endpoint.state !== 'healthy' && (
+                <div className="rpc-error">{endpoint.lastError}</div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
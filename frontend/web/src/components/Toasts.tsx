@@ -0,0 +1,38 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityEntry, NotificationCenter } from '../notifications';
+
+interface ToastsProps {
+  center: NotificationCenter;
+}
+
+const ICONS: Record<ActivityEntry['status'], string> = {
+  pending: '',
+  success: '✓',
+  error: '✗'
+};
+
+// Toast stack in the corner, one toast per running or just finished operation
+export default function Toasts({ center }: ToastsProps) {
+  const [toasts, setToasts] = useState<ActivityEntry[]>([]);
+
+  useEffect(() => center.subscribe(state => setToasts(state.toasts)), [center]);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="toast-stack">
+      {toasts.map(toast => (
+        <div className={`toast ${toast.status}`} key={toast.id}>
+          <div className="toast-icon">
+            {toast.status === 'pending' ? <div className="spinner small"></div> : ICONS[toast.status]}
+          </div>
+          <div className="toast-body">
+            <div className="toast-title">{toast.title}</div>
+            <div className="toast-message">{toast.message}</div>
+          </div>
+          <button className="toast-close" onClick={() => center.dismiss(toast.id)}>×</button>
+        </div>
+      ))}
+    </div>
+  );
+}
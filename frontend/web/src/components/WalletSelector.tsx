@@ -1,12 +1,39 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { DiscoveredWallet, GENERIC_WALLET_ICON, KNOWN_WALLETS, discoverWallets } from '../walletDiscovery';
+import { switchWalletChain } from '../walletNetwork';
+import { chainName } from '../networks';
+import { config } from '../contract';
 
-interface WalletInfo {
+export interface WalletInfo {
+  id: string;
   name: string;
-  provider: any;
+  provider: EIP1193Provider | null;
   icon: string;
+  rdns?: string;
   isInstalled: boolean;
+  installUrl?: string;
 }
 
+const OTHER_WALLETS_ID = 'other';
+
+// Discovered wallets, then the known ones that are missing with their install link
+const listWallets = (discovered: DiscoveredWallet[]): WalletInfo[] => {
+  const found = new Set(discovered.map(wallet => wallet.rdns));
+  return [
+    ...discovered.map(({ id, name, icon, rdns, provider }) => ({ id, name, icon, rdns, provider, isInstalled: true })),
+    ...KNOWN_WALLETS.filter(wallet => !found.has(wallet.rdns)).map(({ name, icon, rdns, installUrl }) => ({
+      id: `install:${rdns}`,
+      name,
+      icon,
+      rdns,
+      provider: null,
+      isInstalled: false,
+      installUrl
+    })),
+    { id: OTHER_WALLETS_ID, name: 'Other Wallets', icon: GENERIC_WALLET_ICON, provider: null, isInstalled: true }
+  ];
+};
+
 interface WalletSelectorProps {
   isOpen: boolean;
   onWalletSelect: (wallet: WalletInfo) => void;
@@ -253,150 +280,37 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
   ];
 
   useEffect(() => {
-    detectWallets();
-    
     if (!isOpen) return;
     
     const hour = new Date().getHours();
     const themeIndex = hour % themeStyles.length;
     setTheme(themeStyles[themeIndex]);
-  }, [isOpen]);
-
-  const detectWallets = () => {
-    const wallets: WalletInfo[] = [];
-
-    const walletIcons: Record<string, string> = {
-      'MetaMask': 'https://upload.wikimedia.org/wikipedia/commons/thumb/3/36/MetaMask_Fox.svg/1200px-MetaMask_Fox.svg.png',
-      'OKX Wallet': 'https://www.okx.com/favicon.ico',
-      'Binance Wallet': 'https://upload.wikimedia.org/wikipedia/commons/thumb/5/57/Binance_Logo.png/600px-Binance_Logo.png',
-      'Other Wallets': 'https://cdn-icons-png.flaticon.com/512/126/126472.png'
-    };
-
-    // MetaMask
-    if (typeof (window as any).ethereum !== 'undefined' && (window as any).ethereum.isMetaMask) {
-      wallets.push({
-        name: 'MetaMask',
-        provider: (window as any).ethereum,
-        icon: walletIcons['MetaMask'],
-        isInstalled: true
-      });
-    } else {
-      wallets.push({
-        name: 'MetaMask',
-        provider: null,
-        icon: walletIcons['MetaMask'],
-        isInstalled: false
-      });
-    }
-
-    // OKX Wallet
-    if (typeof (window as any).okxwallet !== 'undefined') {
-      wallets.push({
-        name: 'OKX Wallet',
-        provider: (window as any).okxwallet,
-        icon: walletIcons['OKX Wallet'],
-        isInstalled: true
-      });
-    } else {
-      wallets.push({
-        name: 'OKX Wallet',
-        provider: null,
-        icon: walletIcons['OKX Wallet'],
-        isInstalled: false
-      });
-    }
-
-    // Binance Wallet
-    if (typeof (window as any).BinanceChain !== 'undefined') {
-      wallets.push({
-        name: 'Binance Wallet',
-        provider: (window as any).BinanceChain,
-        icon: walletIcons['Binance Wallet'],
-        isInstalled: true
-      });
-    } else {
-      wallets.push({
-        name: 'Binance Wallet',
-        provider: null,
-        icon: walletIcons['Binance Wallet'],
-        isInstalled: false
-      });
-    }
 
-    wallets.push({
-      name: 'Other Wallets',
-      provider: null,
-      icon: walletIcons['Other Wallets'],
-      isInstalled: true
-    });
-
-    setAvailableWallets(wallets);
-  };
+    return discoverWallets(discovered => setAvailableWallets(listWallets(discovered)));
+  }, [isOpen]);
 
   const handleWalletSelect = async (wallet: WalletInfo) => {
-    if (wallet.name === 'Other Wallets') {
+    if (wallet.id === OTHER_WALLETS_ID) {
       setShowOtherWallets(true);
       return;
     }
 
     if (!wallet.isInstalled) {
       // Open wallet download page
-      const walletUrls: { [key: string]: string } = {
-        'MetaMask': 'https://metamask.io/',
-        'OKX Wallet': 'https://www.okx.com/web3',
-        'Binance Wallet': 'https://www.bnbchain.org/en/binance-wallet',
-      };
-      
-      const url = walletUrls[wallet.name];
-      if (url) {
-        window.open(url, '_blank');
+      if (wallet.installUrl) {
+        window.open(wallet.installUrl, '_blank');
       }
       return;
     }
 
     try {
-      // Auto-switch to Sepolia testnet
-      await switchToSepolia(wallet.provider);
-      onWalletSelect(wallet);
+      // Move the wallet to the chain of the configured deployment
+      await switchWalletChain(wallet.provider!);
     } catch (error) {
+      // Continue anyway, the app shows a banner while the chains differ
       console.error('Error switching network:', error);
-      // Continue anyway, let the main app handle the connection
-      onWalletSelect(wallet);
-    }
-  };
-
-  const switchToSepolia = async (provider: any) => {
-    try {
-      await provider.request({
-        method: 'wallet_switchEthereumChain',
-        params: [{ chainId: '0xaa36a7' }], // Sepolia chainId
-      });
-    } catch (switchError: any) {
-      if (switchError.code === 4902) {
-        try {
-          await provider.request({
-            method: 'wallet_addEthereumChain',
-            params: [{
-              chainId: '0xaa36a7',
-              chainName: 'Sepolia',
-              nativeCurrency: {
-                name: 'Sepolia Ether',
-                symbol: 'SEP',
-                decimals: 18
-              },
-              rpcUrls: [
-                'https://rpc.sepolia.org',
-                'https://eth-sepolia.public.blastapi.io',
-              ],
-              blockExplorerUrls: ['https://sepolia.etherscan.io/']
-            }]
-          });
-        } catch (addError) {
-          console.error('Error adding Sepolia network:', addError);
-          // Don't throw, let the main app handle it
-        }
-      }
     }
+    onWalletSelect(wallet);
   };
 
   if (!isOpen) return null;
@@ -600,9 +514,9 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           position: 'relative',
           zIndex: 1
         }}>
-          {availableWallets.map((wallet, index) => (
+          {availableWallets.map(wallet => (
             <div
-              key={index}
+              key={wallet.id}
               onClick={() => handleWalletSelect(wallet)}
               style={{
                 borderRadius: '12px',
@@ -708,7 +622,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           border: '1px solid var(--border-color)'
         }}>
           <div style={{ marginBottom: '6px' }}>
-            Wallet will automatically switch to Sepolia testnet
+            Wallet will automatically switch to {chainName(config.chainId)}
           </div>
         </div>
       </div>
@@ -1,11 +1,17 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
+import { NewsBiasFHE, NewsBiasFHE__factory, UniversalAdapter, UniversalAdapter__factory } from "../../../types";
 import configJson from "./config.json";
+import { chainName, rpcUrlsFor } from "./networks";
+import { PooledRpcProvider, RpcPool } from "./rpcPool";
 
-export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
 
+// The factories generated by `npx hardhat compile`, one per deployed contract
+interface TypedFactory<T> {
+  connect(address: string, runner?: ethers.ContractRunner | null): T;
+}
+
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
     return await fn();
@@ -18,44 +24,25 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      console.log(`Connected to RPC ${url}, block: ${blockNumber}`);
-      return provider;
-    } catch (error) {
-      console.warn(`RPC ${url} failed: ${error.message}`);
-    }
-  }
-  
-  throw new Error("All RPC providers failed");
-};
+const network = new ethers.Network(chainName(config.chainId), config.chainId);
+
+// Read endpoints of the configured chain and their health, shared by every read-only contract
+export const rpcPool = new RpcPool(config.chainId, rpcUrlsFor(config.chainId, config.rpcUrls), config.rpcQuorum);
 
-export async function getContractReadOnly() {
+const readProvider = new PooledRpcProvider(rpcPool, network);
+// Critical reads (article index, analysis results) need rpcPool.quorum agreeing endpoints
+const quorumProvider = new PooledRpcProvider(rpcPool, network, rpcPool.quorum);
+
+export function getReadProvider(critical = false): ethers.JsonRpcApiProvider {
+  return critical ? quorumProvider : readProvider;
+}
+
+async function getReadOnly<T>(address: string, factory: TypedFactory<T>, critical: boolean): Promise<T | null> {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const provider = getReadProvider(critical);
+    const contract = factory.connect(address, provider);
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await retry(() => provider.getCode(address));
     if (code === "0x") {
       return null;
     }
@@ -67,14 +54,26 @@ export async function getContractReadOnly() {
   }
 }
 
-export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
+// Wallet picked in the WalletSelector; until then whichever extension holds window.ethereum
+let walletProvider: EIP1193Provider | null = null;
+
+export function setWalletProvider(provider: EIP1193Provider | null) {
+  walletProvider = provider;
+}
+
+export function getWalletProvider(): EIP1193Provider | undefined {
+  return walletProvider ?? window.ethereum;
+}
+
+async function getWithSigner<T>(address: string, factory: TypedFactory<T>): Promise<T> {
+  const injected = getWalletProvider();
+  if (!injected) {
     throw new Error("No injected wallet");
   }
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const provider = new ethers.BrowserProvider(injected);
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const contract = factory.connect(address, signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -82,6 +81,24 @@ export async function getContractWithSigner() {
   }
 }
 
+// NewsBiasFHE: encrypted article features and oracle-computed bias analyses
+export async function getContractReadOnly(critical = false) {
+  return getReadOnly(config.contractAddress, NewsBiasFHE__factory, critical);
+}
+
+export async function getContractWithSigner() {
+  return getWithSigner(config.contractAddress, NewsBiasFHE__factory);
+}
+
+// Key-value store holding the public article metadata (source, keyword tags)
+export async function getMetadataReadOnly(critical = false) {
+  return getReadOnly(config.metadataAddress, UniversalAdapter__factory, critical);
+}
+
+export async function getMetadataWithSigner() {
+  return getWithSigner(config.metadataAddress, UniversalAdapter__factory);
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
@@ -0,0 +1,166 @@
+// devWallet.ts
+//
+// Wallets for a local hardhat node that need no browser extension. They are
+// EIP-1193 providers like any injected wallet, so the rest of the dashboard
+// does not tell them apart: transactions and signatures are made in the page
+// with a local key, every other request goes to the node. Only offered while
+// the deployment is on the local chain, the keys are public or throwaway.
+
+import { ethers } from "ethers";
+import { NewsBiasFHE__factory } from "../../../types";
+import { config, getReadProvider } from "./contract";
+import { LOCAL_CHAIN_ID } from "./networks";
+
+// Mnemonic of the accounts `npx hardhat node` funds and unlocks
+const HARDHAT_MNEMONIC = "test test test test test test test test test test test junk";
+const BURNER_KEY_STORAGE = "newsbias:burner-key";
+const BURNER_BALANCE = ethers.parseEther("100");
+
+const hardhatKey = () => ethers.HDNodeWallet.fromPhrase(HARDHAT_MNEMONIC).privateKey;
+
+export type DevWalletKind = "hardhat" | "burner";
+
+// EIP-1193: the wallet does not support the requested chain
+const UNSUPPORTED_CHAIN = 4901;
+
+// eth_sendTransaction parameters as the BrowserProvider's signer sends them
+interface RpcTransaction {
+  from?: string;
+  to?: string;
+  data?: string;
+  value?: string;
+  gas?: string;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  nonce?: string;
+  type?: string;
+}
+
+const fromRpcTransaction = (tx: RpcTransaction): ethers.TransactionRequest => ({
+  from: tx.from,
+  to: tx.to,
+  data: tx.data,
+  value: tx.value,
+  gasLimit: tx.gas,
+  gasPrice: tx.gasPrice,
+  maxFeePerGas: tx.maxFeePerGas,
+  maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+  nonce: tx.nonce === undefined ? undefined : Number(tx.nonce),
+  type: tx.type === undefined ? undefined : Number(tx.type)
+});
+
+class DevWalletProvider implements EIP1193Provider {
+  private readonly wallet: ethers.Wallet;
+  private prepared: Promise<void> | null = null;
+
+  constructor(privateKey: string, private readonly burner: boolean) {
+    this.wallet = new ethers.Wallet(privateKey, getReadProvider(true));
+  }
+
+  async request({ method, params }: { method: string; params?: unknown[] | object }): Promise<any> {
+    const args = Array.isArray(params) ? params : [];
+    switch (method) {
+      case "eth_requestAccounts":
+        await this.ensurePrepared();
+        return [this.wallet.address];
+      case "eth_accounts":
+        return [this.wallet.address];
+      case "wallet_switchEthereumChain": {
+        const [{ chainId }] = args as { chainId: string }[];
+        if (Number(chainId) !== LOCAL_CHAIN_ID) {
+          throw Object.assign(new Error(`The dev wallet only runs on chain ${LOCAL_CHAIN_ID}`), {
+            code: UNSUPPORTED_CHAIN
+          });
+        }
+        return null;
+      }
+      case "eth_sendTransaction": {
+        const [tx] = args as RpcTransaction[];
+        return (await this.wallet.sendTransaction(fromRpcTransaction(tx))).hash;
+      }
+      case "personal_sign": {
+        const [message] = args as string[];
+        return this.wallet.signMessage(ethers.getBytes(message));
+      }
+      case "eth_signTypedData_v4": {
+        const [, json] = args as string[];
+        const { domain, types, message } = JSON.parse(json);
+        // ethers derives the domain type itself and rejects it among the types
+        const { EIP712Domain, ...messageTypes } = types;
+        return this.wallet.signTypedData(domain, messageTypes, message);
+      }
+      default:
+        return getReadProvider(true).send(method, args);
+    }
+  }
+
+  // The account and chain of a dev wallet never change, there is nothing to emit
+  on() {}
+
+  removeListener() {}
+
+  // A fresh burner key holds nothing and may not submit: the node's
+  // hardhat_setBalance pays for its transactions and account #0, which
+  // deployed the contract, authorizes it as an analyst
+  private ensurePrepared(): Promise<void> {
+    if (!this.burner) return Promise.resolve();
+    this.prepared ??= (async () => {
+      const provider = getReadProvider(true);
+      if ((await provider.getBalance(this.wallet.address)) === 0n) {
+        await provider.send("hardhat_setBalance", [this.wallet.address, ethers.toQuantity(BURNER_BALANCE)]);
+      }
+      await authorizeAnalyst(this.wallet.address);
+    })().catch(e => {
+      this.prepared = null;
+      throw e;
+    });
+    return this.prepared;
+  }
+}
+
+// Checked first: authorizeAnalyst writes unconditionally, a reload or reconnect must not send it again
+async function authorizeAnalyst(account: string) {
+  const deployer = new ethers.Wallet(hardhatKey(), getReadProvider(true));
+  const newsBias = NewsBiasFHE__factory.connect(config.contractAddress, deployer);
+  try {
+    if (await newsBias.authorizedAnalysts(account)) return;
+    await (await newsBias.authorizeAnalyst(account)).wait();
+  } catch (e) {
+    // A contract deployed from another account: the burner stays usable for reads
+    console.warn(`Authorizing the burner wallet ${account} failed, run news:authorize for it:`, e);
+  }
+}
+
+// Kept for the browser tab, a reload reconnects the same burner account
+function burnerKey(): string {
+  let key = sessionStorage.getItem(BURNER_KEY_STORAGE);
+  if (!key) {
+    key = ethers.Wallet.createRandom().privateKey;
+    sessionStorage.setItem(BURNER_KEY_STORAGE, key);
+  }
+  return key;
+}
+
+export const devWalletsAvailable = () => config.chainId === LOCAL_CHAIN_ID;
+
+const providers = new Map<DevWalletKind, EIP1193Provider>();
+
+/**
+ * Provider of a dev wallet, the same object on every call so listeners and
+ * the selected wallet compare equal. `hardhat` signs as the node's first
+ * account, which deployed the contract and so is an authorized analyst;
+ * `burner` as a random account, which the first account authorizes as an
+ * analyst on connecting so it can submit and request analyses too.
+ */
+export function getDevWallet(kind: DevWalletKind): EIP1193Provider {
+  let provider = providers.get(kind);
+  if (!provider) {
+    provider =
+      kind === "hardhat"
+        ? new DevWalletProvider(hardhatKey(), false)
+        : new DevWalletProvider(burnerKey(), true);
+    providers.set(kind, provider);
+  }
+  return provider;
+}
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\dynamic-export-interface.java
-// Generated at: 2025-10-11T09:19:08.751Z
\ No newline at end of file
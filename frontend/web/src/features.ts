@@ -0,0 +1,140 @@
+// features.ts
+//
+// Turns article text into the three euint32 inputs of submitEncryptedArticle.
+// Only plain string and integer arithmetic is used (no locale-aware or
+// transcendental functions), so the browser and Node produce identical values.
+
+import { BASELINE_SCORE } from "./scoring";
+
+export const FEATURE_MODEL_VERSION = 1;
+
+const TOP_KEYWORD_LIMIT = 5;
+
+export interface ArticleFeatures {
+  // Loaded-language intensity, 0 (none) to 100
+  content: number;
+  // Sentiment polarity, 0 (very negative) to 100 (very positive), 50 neutral
+  sentiment: number;
+  // 32-bit fingerprint of the dominant keywords
+  keywords: number;
+  topKeywords: string[];
+  tokenCount: number;
+}
+
+const STOPWORDS = new Set([
+  "a", "about", "after", "again", "against", "all", "also", "an", "and", "any", "are", "as", "at",
+  "be", "because", "been", "before", "being", "between", "both", "but", "by", "can", "could",
+  "did", "do", "does", "doing", "down", "during", "each", "few", "for", "from", "further",
+  "had", "has", "have", "having", "he", "her", "here", "hers", "him", "his", "how", "i", "if",
+  "in", "into", "is", "it", "its", "just", "me", "more", "most", "my", "no", "nor", "not", "now",
+  "of", "off", "on", "once", "only", "or", "other", "our", "out", "over", "own", "said", "same",
+  "she", "should", "so", "some", "such", "than", "that", "the", "their", "them", "then", "there",
+  "these", "they", "this", "those", "through", "to", "too", "under", "until", "up", "very", "was",
+  "we", "were", "what", "when", "where", "which", "while", "who", "whom", "why", "will", "with",
+  "would", "you", "your"
+]);
+
+// Word polarity from -3 (strongly negative) to 3 (strongly positive)
+const SENTIMENT_LEXICON: Record<string, number> = {
+  abandon: -2, abuse: -3, accuse: -2, agree: 1, alarming: -2, amazing: 3, anger: -3, angry: -3,
+  attack: -2, bad: -2, benefit: 2, best: 3, betray: -3, boost: 2, brilliant: 3, calm: 2,
+  celebrate: 3, chaos: -2, collapse: -2, condemn: -2, corrupt: -3, crisis: -3, criticize: -2,
+  damage: -2, danger: -2, dangerous: -2, death: -2, decline: -1, defeat: -2, disaster: -3,
+  dispute: -1, effective: 2, excellent: 3, fail: -2, failure: -2, fair: 2, fear: -2, fraud: -3,
+  gain: 2, good: 2, great: 3, grow: 1, growth: 2, happy: 3, harm: -2, hate: -3, help: 2,
+  honest: 2, hope: 2, improve: 2, improvement: 2, innocent: 1, kill: -3, lie: -2, lose: -2,
+  loss: -2, love: 3, peace: 2, positive: 2, praise: 3, problem: -2, progress: 2, protect: 1,
+  protest: -1, recover: 2, reject: -1, relief: 2, risk: -1, safe: 1, scandal: -3, shock: -2,
+  strong: 2, success: 2, successful: 3, support: 2, terrible: -3, threat: -2, tragedy: -3,
+  trust: 1, victory: 3, violence: -3, war: -2, weak: -2, win: 3, worse: -2, worst: -3, wrong: -2
+};
+
+const NEGATIONS = new Set(["not", "no", "never", "without", "hardly", "nobody", "nothing", "neither"]);
+
+// Emotive or opinionated wording that a neutral report would avoid
+const LOADED_TERMS = new Set([
+  "absurd", "appalling", "blatant", "catastrophic", "corrupt", "cowardly", "crushing", "destroy",
+  "devastating", "disgraceful", "elite", "extremist", "fanatic", "heroic", "horrific", "hysterical",
+  "incompetent", "insane", "outrageous", "propaganda", "radical", "regime", "ridiculous", "shameful",
+  "shocking", "slam", "slams", "smear", "so-called", "stunning", "thug", "thugs", "traitor",
+  "tyranny", "unprecedented", "villain", "witch-hunt"
+]);
+
+const INTENSIFIERS = new Set([
+  "absolutely", "completely", "extremely", "incredibly", "outright", "totally", "truly", "utterly"
+]);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export function tokenize(text: string): string[] {
+  const matches = text.normalize("NFKC").toLowerCase().match(/[\p{L}\p{N}]+(?:['-][\p{L}\p{N}]+)*/gu);
+  return matches ? matches.map(token => token.replace(/'s$/, "")) : [];
+}
+
+export function sentimentScore(tokens: string[]): number {
+  let total = 0;
+  let hits = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const polarity = SENTIMENT_LEXICON[tokens[i]];
+    if (polarity === undefined) continue;
+    const negated = i > 0 && NEGATIONS.has(tokens[i - 1]);
+    total += negated ? -polarity : polarity;
+    hits++;
+  }
+  if (hits === 0) return BASELINE_SCORE;
+
+  // Rational squash of the mean polarity (-3..3) so a few strong words cannot pin the score
+  const mean = total / hits;
+  return clamp(Math.round(BASELINE_SCORE + (BASELINE_SCORE * mean) / (Math.abs(mean) + 1)), 0, 100);
+}
+
+export function loadedLanguageScore(text: string, tokens: string[]): number {
+  if (tokens.length === 0) return 0;
+
+  let weight = 0;
+  for (const token of tokens) {
+    if (LOADED_TERMS.has(token)) weight += 2;
+    else if (INTENSIFIERS.has(token)) weight += 1;
+  }
+  weight += (text.match(/!/g) || []).length;
+  // Shouted words of four or more capitals, ignoring short acronyms
+  weight += (text.match(/\b[A-Z]{4,}\b/g) || []).length;
+
+  // Ten weighted hits per hundred tokens saturate the scale
+  return clamp(Math.round((weight * 1000) / tokens.length), 0, 100);
+}
+
+export function extractTopKeywords(tokens: string[], limit = TOP_KEYWORD_LIMIT): string[] {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    if (token.length < 3 || STOPWORDS.has(token) || /^\d+$/.test(token)) continue;
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0))
+    .slice(0, limit)
+    .map(([token]) => token);
+}
+
+// FNV-1a over the UTF-16 code units of the sorted keywords
+export function keywordFingerprint(keywords: string[]): number {
+  const input = [...keywords].sort().join("|");
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function extractFeatures(text: string): ArticleFeatures {
+  const tokens = tokenize(text);
+  const topKeywords = extractTopKeywords(tokens);
+  return {
+    content: loadedLanguageScore(text, tokens),
+    sentiment: sentimentScore(tokens),
+    keywords: keywordFingerprint(topKeywords),
+    topKeywords,
+    tokenCount: tokens.length
+  };
+}
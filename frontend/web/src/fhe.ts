@@ -0,0 +1,107 @@
+// fhe.ts
+import { ethers } from "ethers";
+import { createInstance, initSDK, SepoliaConfig, FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { config, getReadProvider, getWalletProvider } from "./contract";
+import { isLocalChain } from "./networks";
+import { EncryptedFeatures } from "./newsBiasClient";
+
+const UINT32_MAX = 0xffffffff;
+
+// Plaintext values of the three euint32 inputs of submitEncryptedArticle
+export interface ArticleFeatureValues {
+  content: number;
+  sentiment: number;
+  keywords: number;
+}
+
+export interface EncryptedArticleInput {
+  handles: EncryptedFeatures;
+  inputProof: string;
+}
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+/**
+ * Mock instance for a hardhat node running the fhevm mock: the node answers
+ * the relayer calls itself, so encryption works without the relayer or
+ * internet access. The mock library is only loaded for local chains.
+ */
+async function createLocalInstance(): Promise<FhevmInstance> {
+  const { MockFhevmInstance, contracts } = await import("@fhevm/mock-utils");
+  const provider = getReadProvider();
+  const metadata = await provider.send("fhevm_relayer_metadata", []);
+  const [kmsVerifier, inputVerifier] = await Promise.all([
+    contracts.KMSVerifier.create(provider, metadata.KMSVerifierAddress),
+    contracts.InputVerifier.create(provider, metadata.InputVerifierAddress)
+  ]);
+  const instance = await MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    verifyingContractAddressDecryption: kmsVerifier.gatewayDecryptionAddress,
+    verifyingContractAddressInputVerification: inputVerifier.gatewayInputVerificationAddress,
+    chainId: metadata.chainId,
+    gatewayChainId: metadata.gatewayChainId
+  });
+  return instance as unknown as FhevmInstance;
+}
+
+export function getFhevmInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    instancePromise = isLocalChain(config.chainId)
+      ? createLocalInstance()
+      : (async () => {
+          await initSDK();
+          return createInstance({
+            ...SepoliaConfig,
+            network: getWalletProvider() || SepoliaConfig.network
+          });
+        })();
+    // Let the next call retry instead of caching a failed initialisation
+    instancePromise.catch(() => {
+      instancePromise = null;
+    });
+  }
+  return instancePromise;
+}
+
+// ACL contract holding the decryption permissions of every handle
+export async function getAclAddress(): Promise<string> {
+  if (!isLocalChain(config.chainId)) return SepoliaConfig.aclContractAddress;
+  const metadata = await getReadProvider().send("fhevm_relayer_metadata", []);
+  return metadata.ACLAddress;
+}
+
+const assertUint32 = (name: string, value: number) => {
+  if (!Number.isInteger(value) || value < 0 || value > UINT32_MAX) {
+    throw new Error(`Feature "${name}" is not a uint32: ${value}`);
+  }
+};
+
+export async function encryptArticleFeatures(
+  contractAddress: string,
+  userAddress: string,
+  features: ArticleFeatureValues
+): Promise<EncryptedArticleInput> {
+  assertUint32("content", features.content);
+  assertUint32("sentiment", features.sentiment);
+  assertUint32("keywords", features.keywords);
+
+  const instance = await getFhevmInstance();
+  // The input proof binds the ciphertexts to this contract and sender, so both
+  // must match the eventual submitEncryptedArticle call.
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  input.add32(features.content);
+  input.add32(features.sentiment);
+  input.add32(features.keywords);
+
+  const { handles, inputProof } = await input.encrypt();
+  return {
+    handles: {
+      content: ethers.hexlify(handles[0]),
+      sentiment: ethers.hexlify(handles[1]),
+      keywords: ethers.hexlify(handles[2])
+    },
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
@@ -0,0 +1,70 @@
+// networks.ts
+//
+// Registry of the chains NewsBiasFHE is deployed to, shared by the dashboard
+// and hardhat.config.ts: the hardhat network of each chain, its default RPC
+// endpoints and what a wallet needs to add it. The endpoints listed in
+// config.json take precedence; these are the fallback for a config that lists
+// none. Supporting another fhEVM chain starts with an entry here.
+
+export const LOCAL_CHAIN_ID = 31337;
+export const SEPOLIA_CHAIN_ID = 11155111;
+
+export interface ChainInfo {
+  chainId: number;
+  name: string;
+  // Name of the chain's network in hardhat.config.ts, deploying uses `--network <name>`
+  hardhatNetwork: string;
+  // Environment variable overriding the RPC URL hardhat deploys through, rpcUrls[0] otherwise
+  rpcUrlEnv: string;
+  rpcUrls: string[];
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  blockExplorerUrl?: string;
+  // Blocks including the transaction's own before it counts as confirmed
+  confirmations: number;
+  // Hardhat node running the fhevm mock, no relayer or decryption oracle service
+  isLocal: boolean;
+}
+
+export const CHAINS: Record<number, ChainInfo> = {
+  [LOCAL_CHAIN_ID]: {
+    chainId: LOCAL_CHAIN_ID,
+    name: "Hardhat (local)",
+    hardhatNetwork: "localhost",
+    rpcUrlEnv: "LOCALHOST_RPC_URL",
+    rpcUrls: ["http://127.0.0.1:8545"],
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    confirmations: 1,
+    isLocal: true
+  },
+  [SEPOLIA_CHAIN_ID]: {
+    chainId: SEPOLIA_CHAIN_ID,
+    name: "Sepolia",
+    hardhatNetwork: "sepolia",
+    rpcUrlEnv: "SEPOLIA_RPC_URL",
+    rpcUrls: ["https://sepolia.drpc.org", "https://ethereum-sepolia-rpc.publicnode.com", "https://rpc.sepolia.org"],
+    nativeCurrency: { name: "Sepolia Ether", symbol: "SEP", decimals: 18 },
+    blockExplorerUrl: "https://sepolia.etherscan.io",
+    confirmations: 3,
+    isLocal: false
+  }
+};
+
+export function chainName(chainId: number): string {
+  return CHAINS[chainId]?.name ?? `Chain ${chainId}`;
+}
+
+export function requiredConfirmations(chainId: number): number {
+  return CHAINS[chainId]?.confirmations ?? 3;
+}
+
+export function isLocalChain(chainId: number): boolean {
+  return CHAINS[chainId]?.isLocal ?? false;
+}
+
+export function rpcUrlsFor(chainId: number, configured: string[] = []): string[] {
+  const urls = configured.length > 0 ? configured : CHAINS[chainId]?.rpcUrls ?? [];
+  if (urls.length === 0) {
+    throw new Error(`No RPC endpoint configured for chain ${chainId}`);
+  }
+  return urls;
+}
@@ -0,0 +1,102 @@
+// newsBiasClient.ts
+import type { ethers } from "ethers";
+import type { NewsBiasFHE } from "../../../types";
+import { sendPreflighted } from "./preflight";
+
+export interface EncryptedArticle {
+  articleId: number;
+  encryptedContent: string;
+  encryptedSentiment: string;
+  encryptedKeywords: string;
+  timestamp: number;
+}
+
+export interface BiasAnalysis {
+  biasScore: string;
+  comparisonResult: string;
+  mediaOutlet: string;
+  isAnalyzed: boolean;
+}
+
+// bytes32 ciphertext handles for the three euint32 features of an article
+export interface EncryptedFeatures {
+  content: string;
+  sentiment: string;
+  keywords: string;
+}
+
+// Follows a sent transaction until it is mined, txManager in the dashboard
+export interface TxTracker {
+  track(tx: ethers.TransactionResponse, label: string): Promise<ethers.TransactionReceipt>;
+}
+
+export interface SubmittedArticle {
+  articleId: number;
+  txHash: string;
+}
+
+export async function getArticleCount(contract: NewsBiasFHE): Promise<number> {
+  const count = await contract.articleCount();
+  return Number(count);
+}
+
+export async function getArticle(contract: NewsBiasFHE, articleId: number): Promise<EncryptedArticle> {
+  const article = await contract.articles(articleId);
+  return {
+    articleId: Number(article.articleId),
+    encryptedContent: article.encryptedContent,
+    encryptedSentiment: article.encryptedSentiment,
+    encryptedKeywords: article.encryptedKeywords,
+    timestamp: Number(article.timestamp)
+  };
+}
+
+export async function getBiasAnalysis(contract: NewsBiasFHE, articleId: number): Promise<BiasAnalysis> {
+  const analysis = await contract.getBiasAnalysis(articleId);
+  return {
+    biasScore: analysis.biasScore,
+    comparisonResult: analysis.comparisonResult,
+    mediaOutlet: analysis.mediaOutlet,
+    isAnalyzed: analysis.isAnalyzed
+  };
+}
+
+export async function submitEncryptedArticle(
+  contract: NewsBiasFHE,
+  features: EncryptedFeatures,
+  inputProof: string,
+  tracker: TxTracker
+): Promise<SubmittedArticle> {
+  const tx = await sendPreflighted(
+    contract,
+    contract.submitEncryptedArticle,
+    [features.content, features.sentiment, features.keywords, inputProof],
+    "Article submission"
+  );
+  const receipt = await tracker.track(tx, "Article submission");
+
+  // The new id comes from the event rather than a follow-up articleCount read,
+  // which could already include another publisher's submission.
+  for (const log of receipt.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "ArticleSubmitted") {
+      return { articleId: Number(parsed.args.articleId), txHash: receipt.hash };
+    }
+  }
+  throw new Error("ArticleSubmitted event missing from receipt");
+}
+
+export async function requestBiasAnalysis(
+  contract: NewsBiasFHE,
+  articleId: number,
+  tracker: TxTracker
+): Promise<string> {
+  const tx = await sendPreflighted(contract, contract.requestBiasAnalysis, [articleId], "Analysis request");
+  const receipt = await tracker.track(tx, `Analysis request for article #${articleId}`);
+  return receipt.hash;
+}
+
+export async function allowBiasCounts(contract: NewsBiasFHE, categories: string[], tracker: TxTracker): Promise<void> {
+  const tx = await sendPreflighted(contract, contract.allowBiasCounts, [categories], "Count access");
+  await tracker.track(tx, `Access to the ${categories.join(", ")} counts`);
+}
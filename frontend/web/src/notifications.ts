@@ -0,0 +1,159 @@
+// notifications.ts
+//
+// Activity log of everything the dashboard does on chain, and the toasts
+// announcing it. Every operation gets its own entry, updated in place as it
+// progresses, so concurrent operations no longer overwrite each other and a
+// failure stays listed until the log is cleared. Entries are persisted with
+// their transaction hash and, where the operation can be repeated, a retry.
+
+import { config } from "./contract";
+
+export type ActivityKind = "submission" | "metadata" | "analysis" | "decryption";
+export type ActivityStatus = "pending" | "success" | "error";
+
+// What the retry button of a failed entry runs again
+export type RetryAction =
+  | { type: "submission" }
+  | { type: "metadata"; articleId: number }
+  | { type: "analysis"; articleId: number };
+
+export interface ActivityEntry {
+  id: string;
+  kind: ActivityKind;
+  status: ActivityStatus;
+  title: string;
+  message: string;
+  // Unix milliseconds of the last change
+  timestamp: number;
+  articleId?: number;
+  txHash?: string;
+  retry?: RetryAction;
+}
+
+export interface NotificationState {
+  // Newest first
+  entries: ActivityEntry[];
+  // Entries shown as toasts, oldest first
+  toasts: ActivityEntry[];
+}
+
+const MAX_ENTRIES = 100;
+const MAX_TOASTS = 3;
+// Failures stay until dismissed, pending toasts until they finish
+const SUCCESS_TOAST_MS = 4000;
+
+const storageKey = () => `newsbias:activity:${config.chainId}:${config.contractAddress.toLowerCase()}`;
+
+export class NotificationCenter {
+  private entries: ActivityEntry[];
+  // Ids of the toasts on screen and of those waiting for a free slot
+  private shown: string[] = [];
+  private queued: string[] = [];
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly listeners = new Set<(state: NotificationState) => void>();
+  private nextId = Date.now();
+
+  constructor() {
+    // An operation that only lived in a closed tab cannot finish any more. Sent
+    // transactions and oracle decryptions go on without the tab and are kept pending.
+    this.entries = this.load().map(entry =>
+      entry.status === "pending" && !entry.txHash && entry.kind !== "decryption"
+        ? { ...entry, status: "error", message: "Interrupted by a page reload" }
+        : entry
+    );
+  }
+
+  state(): NotificationState {
+    const byId = new Map(this.entries.map(entry => [entry.id, entry]));
+    return {
+      entries: this.entries,
+      toasts: this.shown.map(id => byId.get(id)).filter((entry): entry is ActivityEntry => entry !== undefined)
+    };
+  }
+
+  subscribe(listener: (state: NotificationState) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.state());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  find(predicate: (entry: ActivityEntry) => boolean): ActivityEntry | undefined {
+    return this.entries.find(predicate);
+  }
+
+  // Adds an entry and queues its toast, returns the entry id
+  push(entry: Omit<ActivityEntry, "id" | "timestamp">): string {
+    const id = String(this.nextId++);
+    this.entries = [{ ...entry, id, timestamp: Date.now() }, ...this.entries].slice(0, MAX_ENTRIES);
+    this.toast(id);
+    this.changed();
+    return id;
+  }
+
+  update(id: string, changes: Partial<Omit<ActivityEntry, "id" | "timestamp">>) {
+    const entry = this.entries.find(e => e.id === id);
+    if (!entry) return;
+    const finished = changes.status !== undefined && changes.status !== entry.status;
+    this.entries = this.entries.map(e => (e.id === id ? { ...e, ...changes, timestamp: Date.now() } : e));
+    // The outcome is announced again even when the pending toast was dismissed
+    if (finished) this.toast(id);
+    this.changed();
+  }
+
+  dismiss(id: string) {
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+    this.shown = this.shown.filter(shownId => shownId !== id);
+    this.queued = this.queued.filter(queuedId => queuedId !== id);
+    this.fill();
+    this.changed();
+  }
+
+  // Drops the finished entries from the log, pending ones stay
+  clear() {
+    const cleared = this.entries.filter(entry => entry.status !== "pending").map(entry => entry.id);
+    cleared.forEach(id => this.dismiss(id));
+    this.entries = this.entries.filter(entry => entry.status === "pending");
+    this.changed();
+  }
+
+  private toast(id: string) {
+    if (!this.shown.includes(id) && !this.queued.includes(id)) {
+      this.queued.push(id);
+    }
+    this.fill();
+    const entry = this.entries.find(e => e.id === id);
+    clearTimeout(this.timers.get(id));
+    if (entry?.status === "success") {
+      this.timers.set(id, setTimeout(() => this.dismiss(id), SUCCESS_TOAST_MS));
+    }
+  }
+
+  private fill() {
+    while (this.shown.length < MAX_TOASTS && this.queued.length > 0) {
+      this.shown.push(this.queued.shift()!);
+    }
+  }
+
+  private changed() {
+    this.save();
+    const state = this.state();
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  private load(): ActivityEntry[] {
+    try {
+      return JSON.parse(localStorage.getItem(storageKey()) || "[]");
+    } catch {
+      return [];
+    }
+  }
+
+  private save() {
+    localStorage.setItem(storageKey(), JSON.stringify(this.entries));
+  }
+}
+
+export const notifications = new NotificationCenter();
@@ -0,0 +1,39 @@
+// pendingMetadata.ts
+//
+// Metadata payloads whose setData has not been confirmed yet. The payload is
+// saved before the transaction is sent, so an article whose metadata write
+// failed (or whose tab was closed) can still get its metadata later.
+
+import { config } from "./contract";
+
+const storageKey = () => `newsbias:pending-metadata:${config.chainId}:${config.contractAddress.toLowerCase()}`;
+
+function readAll(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey()) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+function writeAll(entries: Record<string, string>) {
+  if (Object.keys(entries).length === 0) {
+    localStorage.removeItem(storageKey());
+  } else {
+    localStorage.setItem(storageKey(), JSON.stringify(entries));
+  }
+}
+
+export function getPendingMetadata(articleId: number): string | undefined {
+  return readAll()[articleId];
+}
+
+export function savePendingMetadata(articleId: number, payload: string) {
+  writeAll({ ...readAll(), [articleId]: payload });
+}
+
+export function clearPendingMetadata(articleId: number) {
+  const entries = readAll();
+  delete entries[articleId];
+  writeAll(entries);
+}
@@ -0,0 +1,159 @@
+// preflight.ts
+//
+// Every write is simulated with eth_call and estimateGas before it is sent,
+// so a transaction that would revert is reported before the wallet asks the
+// user to sign it. Revert data is decoded into a readable message: the
+// contract's require strings, panics, and the custom errors of the fhevm
+// contracts an encrypted input passes through.
+
+import { ethers } from "ethers";
+import type { TypedContractMethod } from "../../../types/common";
+
+// Extra gas over the estimate, state can change between simulation and mining
+const GAS_MARGIN_PERCENT = 20n;
+
+// Readable messages for the require strings of NewsBiasFHE
+const REQUIRE_MESSAGES: Record<string, string> = {
+  "Unauthorized analyst": "Your account is not an authorized analyst. An existing analyst has to authorize it first.",
+  "Analysis already completed": "This article has already been analyzed.",
+  "Invalid request": "The decryption request is unknown to the contract.",
+  "Category not found": "No article has been classified in this bias category yet."
+};
+
+// Custom errors raised while verifying encrypted inputs and ciphertext access,
+// they are not part of the contracts' own ABIs
+const FHEVM_ERRORS = new ethers.Interface([
+  "error DeserializingInputProofFail()",
+  "error EmptyInputProof()",
+  "error InvalidChainId()",
+  "error InvalidIndex()",
+  "error InvalidInputHandle()",
+  "error InvalidHandleVersion()",
+  "error InvalidSigner(address signerRecovered)",
+  "error SignatureThresholdNotReached(uint256 numSignatures)",
+  "error ZeroSignature()",
+  "error SignaturesVerificationFailed()",
+  "error SenderNotAllowed(address sender)",
+  "error ACLNotAllowed(bytes32 handle, address account)",
+  "error InvalidType()",
+  "error UnsupportedType()",
+  "error HandlesAlreadySavedForRequestID()",
+  "error NoHandleFoundForRequestID()",
+  "error InvalidKMSSignatures()"
+]);
+
+const CUSTOM_ERROR_MESSAGES: Record<string, (args: ethers.Result) => string> = {
+  DeserializingInputProofFail: () => "The encrypted input proof is malformed. Encrypt the article again.",
+  EmptyInputProof: () => "The encrypted input comes without a proof. Encrypt the article again.",
+  InvalidChainId: () => "The article was encrypted for another network. Switch networks and encrypt it again.",
+  InvalidIndex: () => "The encrypted input does not match its proof. Encrypt the article again.",
+  InvalidInputHandle: () => "The encrypted input does not match its proof. Encrypt the article again.",
+  InvalidHandleVersion: () => "The encrypted input was made by an incompatible FHE library version.",
+  InvalidSigner: () => "The encrypted input was not signed by a known coprocessor. Encrypt the article again.",
+  SignatureThresholdNotReached: () => "The encrypted input lacks enough coprocessor signatures. Encrypt the article again.",
+  ZeroSignature: () => "The encrypted input proof carries no signature. Encrypt the article again.",
+  SignaturesVerificationFailed: () => "The encrypted input signatures are invalid. Encrypt the article again.",
+  SenderNotAllowed: args => `Account ${args.sender} may not use this ciphertext.`,
+  ACLNotAllowed: args => `Account ${args.account} may not use this ciphertext.`,
+  InvalidType: () => "The encrypted input is not of the expected type. Encrypt the article again.",
+  UnsupportedType: () => "The encrypted input is not of the expected type. Encrypt the article again.",
+  HandlesAlreadySavedForRequestID: () => "The decryption request was already made.",
+  NoHandleFoundForRequestID: () => "The decryption request is unknown to the contract.",
+  InvalidKMSSignatures: () => "The decryption result is not signed by the key management service."
+};
+
+export interface DecodedRevert {
+  // Error(string), Panic(uint256) or a custom error name; null when the data matches no known error
+  name: string | null;
+  args: unknown[];
+  message: string;
+}
+
+export class PreflightError extends Error {
+  constructor(readonly action: string, readonly revert: DecodedRevert) {
+    super(revert.message);
+    this.name = "PreflightError";
+  }
+}
+
+// Revert data sits at different depths depending on the provider and wallet
+function findRevertData(error: any): string | null {
+  for (let e = error, depth = 0; e && depth < 5; e = e.info?.error ?? e.error ?? e.cause, depth++) {
+    if (typeof e.data === "string" && ethers.isHexString(e.data)) return e.data;
+    if (typeof e.data?.data === "string" && ethers.isHexString(e.data.data)) return e.data.data;
+  }
+  return null;
+}
+
+/**
+ * Decodes the revert of a failed call against the given interfaces and the
+ * fhevm errors. Returns null when the error is not a revert (network errors,
+ * rejected signatures).
+ */
+export function decodeRevert(error: unknown, ...interfaces: ethers.Interface[]): DecodedRevert | null {
+  const data = findRevertData(error);
+  if (data === null && !ethers.isError(error, "CALL_EXCEPTION")) {
+    return null;
+  }
+  if (data === null || data === "0x") {
+    return { name: null, args: [], message: "The transaction would revert without a reason." };
+  }
+
+  const builtin = ethers.AbiCoder.getBuiltinCallException("call", {}, data);
+  if (builtin.revert) {
+    const { name, args } = builtin.revert;
+    if (name === "Error") {
+      const reason = String(args[0]);
+      return { name, args, message: REQUIRE_MESSAGES[reason] ?? reason };
+    }
+    return { name, args, message: `The contract failed: ${builtin.reason ?? `panic ${args[0]}`}.` };
+  }
+
+  for (const iface of [...interfaces, FHEVM_ERRORS]) {
+    const parsed = iface.parseError(data);
+    if (parsed) {
+      const describe = CUSTOM_ERROR_MESSAGES[parsed.name];
+      return {
+        name: parsed.name,
+        args: [...parsed.args],
+        message: describe ? describe(parsed.args) : `The contract rejected the transaction: ${parsed.signature}.`
+      };
+    }
+  }
+  return { name: null, args: [], message: `The transaction would revert (${ethers.dataSlice(data, 0, 4)}).` };
+}
+
+// A readable message for any error of a write, from simulation to mining
+export function describeTxError(error: any, ...interfaces: ethers.Interface[]): string {
+  if (error instanceof PreflightError) return error.message;
+  if (ethers.isError(error, "ACTION_REJECTED")) return "Transaction rejected by user";
+  if (ethers.isError(error, "INSUFFICIENT_FUNDS")) return "The account cannot pay for the transaction's gas.";
+  const revert = decodeRevert(error, ...interfaces);
+  if (revert) return revert.message;
+  return error?.shortMessage || error?.message || "Unknown error";
+}
+
+/**
+ * Simulates a write from the signer's account, then sends it with the
+ * estimated gas plus a margin. A revert throws PreflightError before the
+ * wallet prompt; other simulation failures are rethrown unchanged.
+ */
+export async function sendPreflighted<A extends Array<any>>(
+  contract: ethers.BaseContract,
+  method: TypedContractMethod<A, any, "nonpayable">,
+  args: A,
+  action: string
+): Promise<ethers.ContractTransactionResponse> {
+  // The typed signature checks the arguments, the untyped method takes them with overrides
+  const fn = method as unknown as ethers.BaseContractMethod;
+  let gas: bigint;
+  try {
+    await fn.staticCall(...args);
+    gas = await fn.estimateGas(...args);
+  } catch (e) {
+    const revert = decodeRevert(e, contract.interface);
+    if (revert) throw new PreflightError(action, revert);
+    throw e;
+  }
+  return fn.send(...args, { gasLimit: gas + (gas * GAS_MARGIN_PERCENT) / 100n });
+}
@@ -0,0 +1,384 @@
+// rpcPool.ts
+//
+// Read access over several RPC endpoints of one chain. Every request goes to
+// the healthiest endpoint first and fails over to the next one when it times
+// out or errors, so a bad endpoint is left mid-session instead of being
+// trusted for the whole page load. Latency and error rate are tracked per
+// endpoint as moving averages. Critical reads can require the same answer
+// from a quorum of endpoints, read at a block all of them have reached.
+
+import { ethers } from "ethers";
+
+export type EndpointState = "unknown" | "healthy" | "degraded" | "down";
+
+export interface EndpointHealth {
+  url: string;
+  state: EndpointState;
+  // Moving averages over the latest requests
+  latencyMs: number | null;
+  errorRate: number;
+  requests: number;
+  failures: number;
+  lastError?: string;
+}
+
+export interface PoolHealth {
+  chainId: number;
+  state: EndpointState;
+  // Agreeing endpoints required for critical reads, at most the endpoint count
+  quorum: number;
+  endpoints: EndpointHealth[];
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+// Weight of the latest request in the moving averages
+const SMOOTHING = 0.3;
+const DEGRADED_ERROR_RATE = 0.2;
+// Consecutive transport failures after which an endpoint is skipped for a while
+const DOWN_AFTER_FAILURES = 3;
+const DOWN_COOLDOWN_MS = 30000;
+// How long an endpoint's block number is reused to pin quorum reads
+const HEAD_MAX_AGE_MS = 2000;
+
+// Methods that give every endpoint the same answer once their heads cover the
+// requested blocks; anything head-dependent is never compared across endpoints,
+// and eth_blockNumber answers with the newest block the quorum has reached.
+const QUORUM_METHODS = new Set([
+  "eth_call",
+  "eth_getCode",
+  "eth_getLogs",
+  "eth_getStorageAt",
+  "eth_getTransactionByHash",
+  "eth_getTransactionReceipt"
+]);
+
+// Position of the block tag among the params of the quorum methods that take one
+const BLOCK_TAG_PARAM: Record<string, number> = { eth_call: 1, eth_getCode: 1, eth_getStorageAt: 2 };
+
+// Tags that follow each endpoint's own head and so differ between endpoints
+const isHeadTag = (tag: unknown) => tag === undefined || tag === "latest" || tag === "pending";
+
+// Block a tag refers to when it is a number, 0 for tags every endpoint has ("earliest", a block hash)
+const blockOf = (tag: unknown) => (typeof tag === "string" && ethers.isHexString(tag) ? Number(tag) : 0);
+
+type RpcResponse = ethers.JsonRpcResult | ethers.JsonRpcError;
+
+// The endpoint answered with a JSON-RPC error: it is alive, but another one may still serve the request
+class RpcErrorResponse extends Error {
+  constructor(readonly response: ethers.JsonRpcError) {
+    super(response.error.message);
+  }
+}
+
+const isRevert = (error: ethers.JsonRpcError["error"]) =>
+  error.code === 3 || /revert/i.test(error.message || "");
+
+class RpcEndpoint {
+  readonly health: EndpointHealth;
+  private consecutiveFailures = 0;
+  private downUntil = 0;
+  private chainCheck: Promise<void> | null = null;
+  private head: { block: Promise<number>; at: number } | null = null;
+
+  constructor(readonly url: string, private readonly chainId: number) {
+    this.health = { url, state: "unknown", latencyMs: null, errorRate: 0, requests: 0, failures: 0 };
+  }
+
+  get available(): boolean {
+    return this.health.state !== "down" || Date.now() >= this.downUntil;
+  }
+
+  // Lower is better: untried endpoints right after healthy ones, then by latency
+  get rank(): number {
+    const order: Record<EndpointState, number> = { healthy: 0, unknown: 1, degraded: 2, down: 3 };
+    return order[this.health.state] * 1e6 + (this.health.latencyMs ?? 0);
+  }
+
+  async request(payload: ethers.JsonRpcPayload): Promise<RpcResponse> {
+    if (!this.chainCheck) {
+      this.chainCheck = this.post({ id: 0, jsonrpc: "2.0", method: "eth_chainId", params: [] }).then(response => {
+        if ("error" in response || Number(response.result) !== this.chainId) {
+          throw new Error(`${this.url} does not serve chain ${this.chainId}`);
+        }
+      });
+      this.chainCheck.catch(() => {
+        this.chainCheck = null;
+      });
+    }
+    await this.chainCheck;
+    return this.post(payload);
+  }
+
+  // Latest block of the endpoint, shared by the quorum reads of a short burst
+  blockNumber(): Promise<number> {
+    if (!this.head || Date.now() - this.head.at >= HEAD_MAX_AGE_MS) {
+      const block = this.request({ id: 0, jsonrpc: "2.0", method: "eth_blockNumber", params: [] }).then(response => {
+        if ("error" in response) throw new RpcErrorResponse(response);
+        return Number(response.result);
+      });
+      block.catch(() => {
+        if (this.head?.block === block) this.head = null;
+      });
+      this.head = { block, at: Date.now() };
+    }
+    return this.head.block;
+  }
+
+  private async post(payload: ethers.JsonRpcPayload): Promise<RpcResponse> {
+    const started = Date.now();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+      const res = await fetch(this.url, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(payload),
+        signal: controller.signal
+      });
+      if (!res.ok) {
+        throw new Error(`HTTP ${res.status}`);
+      }
+      const response = (await res.json()) as RpcResponse;
+      this.record(Date.now() - started);
+      if ("error" in response && !isRevert(response.error)) {
+        throw new RpcErrorResponse(response);
+      }
+      return response;
+    } catch (e: any) {
+      if (!(e instanceof RpcErrorResponse)) {
+        this.record(Date.now() - started, e.name === "AbortError" ? "timeout" : e.message || String(e));
+      }
+      throw e;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private record(latencyMs: number, error?: string) {
+    const health = this.health;
+    health.requests++;
+    health.errorRate = health.errorRate * (1 - SMOOTHING) + (error ? SMOOTHING : 0);
+    if (error) {
+      health.failures++;
+      health.lastError = error;
+      this.consecutiveFailures++;
+    } else {
+      health.latencyMs = health.latencyMs === null ? latencyMs : health.latencyMs * (1 - SMOOTHING) + latencyMs * SMOOTHING;
+      this.consecutiveFailures = 0;
+    }
+
+    if (this.consecutiveFailures >= DOWN_AFTER_FAILURES) {
+      health.state = "down";
+      this.downUntil = Date.now() + DOWN_COOLDOWN_MS;
+    } else {
+      health.state = health.errorRate > DEGRADED_ERROR_RATE ? "degraded" : "healthy";
+    }
+  }
+}
+
+export class RpcPool {
+  private readonly endpoints: RpcEndpoint[];
+  private readonly listeners = new Set<(health: PoolHealth) => void>();
+  readonly quorum: number;
+
+  constructor(readonly chainId: number, urls: string[], quorum = 1) {
+    if (urls.length === 0) {
+      throw new Error(`No RPC endpoint for chain ${chainId}`);
+    }
+    this.endpoints = urls.map(url => new RpcEndpoint(url, chainId));
+    if (quorum > urls.length) {
+      console.warn(`RPC quorum ${quorum} exceeds the ${urls.length} configured endpoint(s), using ${urls.length}`);
+    }
+    this.quorum = Math.max(1, Math.min(quorum, urls.length));
+  }
+
+  health(): PoolHealth {
+    const endpoints = this.endpoints.map(e => ({ ...e.health }));
+    const states = endpoints.map(e => e.state);
+    const state: EndpointState = states.includes("healthy")
+      ? "healthy"
+      : states.every(s => s === "down")
+        ? "down"
+        : states.every(s => s === "unknown")
+          ? "unknown"
+          : "degraded";
+    return { chainId: this.chainId, state, quorum: this.quorum, endpoints };
+  }
+
+  subscribe(listener: (health: PoolHealth) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.health());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    const health = this.health();
+    this.listeners.forEach(listener => listener(health));
+  }
+
+  // Available endpoints best first, then the ones still cooling down as a last resort
+  private ordered(): RpcEndpoint[] {
+    const byRank = (a: RpcEndpoint, b: RpcEndpoint) => a.rank - b.rank;
+    return [
+      ...this.endpoints.filter(e => e.available).sort(byRank),
+      ...this.endpoints.filter(e => !e.available).sort(byRank)
+    ];
+  }
+
+  async request(payload: ethers.JsonRpcPayload, quorum = 1): Promise<RpcResponse> {
+    try {
+      const required = Math.min(quorum, this.quorum);
+      if (quorum > 1 && payload.method === "eth_blockNumber") {
+        // A block range ending here is then covered by the quorum reads that follow
+        const { covered } = await this.reached(required);
+        return { id: payload.id, result: ethers.toQuantity(covered) };
+      }
+      if (quorum > 1 && QUORUM_METHODS.has(payload.method)) {
+        const { pinned, candidates } = await this.pin(payload, required);
+        return await this.requestQuorum(pinned, required, candidates);
+      }
+      return await this.requestFailover(payload);
+    } finally {
+      this.notify();
+    }
+  }
+
+  private async requestFailover(payload: ethers.JsonRpcPayload): Promise<RpcResponse> {
+    let lastError: unknown;
+    for (const endpoint of this.ordered()) {
+      try {
+        return await endpoint.request(payload);
+      } catch (e) {
+        lastError = e;
+      }
+    }
+    // Every endpoint failed; a JSON-RPC error is still the best answer to hand to ethers
+    if (lastError instanceof RpcErrorResponse) return lastError.response;
+    throw lastError;
+  }
+
+  // Newest block `quorum` endpoints have reached, with the head of each endpoint asked
+  private async reached(quorum: number): Promise<{ covered: number; endpoints: RpcEndpoint[]; heads: number[] }> {
+    const available = this.ordered().filter(e => e.available);
+    const endpoints = available.length >= quorum ? available : this.ordered();
+    const heads = await Promise.all(endpoints.map(e => e.blockNumber().catch(() => -1)));
+    const covered = [...heads].sort((a, b) => b - a)[quorum - 1];
+    if (covered < 0) {
+      throw new Error(`Fewer than ${quorum} RPC endpoints report their block number`);
+    }
+    return { covered, endpoints, heads };
+  }
+
+  /**
+   * Fixes the block a quorum read is answered at, since endpoints whose heads
+   * differ answer "latest" for different states and would never agree right
+   * after a new block. "latest" becomes the newest block `quorum` endpoints
+   * have reached, and only endpoints whose head covers the requested blocks
+   * are asked.
+   */
+  private async pin(
+    payload: ethers.JsonRpcPayload,
+    quorum: number
+  ): Promise<{ pinned: ethers.JsonRpcPayload; candidates: RpcEndpoint[] }> {
+    const { covered, endpoints, heads } = await this.reached(quorum);
+    const tag = ethers.toQuantity(covered);
+    const params = Array.isArray(payload.params) ? [...payload.params] : [];
+    let block = 0;
+    if (payload.method === "eth_getLogs") {
+      const filter = { ...params[0] };
+      // A block hash names the block itself, every endpoint that has it gives the same logs
+      if (filter.blockHash === undefined) {
+        if (isHeadTag(filter.fromBlock)) filter.fromBlock = tag;
+        if (isHeadTag(filter.toBlock)) filter.toBlock = tag;
+        block = Math.max(blockOf(filter.fromBlock), blockOf(filter.toBlock));
+      }
+      params[0] = filter;
+    } else if (payload.method in BLOCK_TAG_PARAM) {
+      const index = BLOCK_TAG_PARAM[payload.method];
+      if (isHeadTag(params[index])) params[index] = tag;
+      block = blockOf(params[index]);
+    }
+
+    return {
+      pinned: { ...payload, params },
+      candidates: endpoints.filter((_, i) => heads[i] >= block)
+    };
+  }
+
+  /**
+   * Asks `quorum` endpoints at once and more as answers fail or disagree,
+   * until `quorum` of them returned the same result.
+   */
+  private async requestQuorum(
+    payload: ethers.JsonRpcPayload,
+    quorum: number,
+    candidates: RpcEndpoint[]
+  ): Promise<RpcResponse> {
+    const answers = new Map<string, { response: RpcResponse; count: number }>();
+    let next = 0;
+
+    if (candidates.length < quorum) {
+      throw new Error(`Only ${candidates.length} RPC endpoint(s) have reached the block ${payload.method} reads`);
+    }
+
+    return new Promise((resolve, reject) => {
+      let pending = 0;
+      let settled = false;
+
+      const launch = () => {
+        const endpoint = candidates[next++];
+        pending++;
+        endpoint
+          .request(payload)
+          .then(response => {
+            const key = JSON.stringify("error" in response ? { error: response.error } : { result: response.result });
+            const answer = answers.get(key) ?? { response, count: 0 };
+            answer.count++;
+            answers.set(key, answer);
+            if (answer.count >= quorum && !settled) {
+              settled = true;
+              resolve(answer.response);
+            }
+          })
+          .catch(() => undefined)
+          .finally(() => {
+            pending--;
+            if (settled) return;
+            const best = Math.max(0, ...[...answers.values()].map(a => a.count));
+            // Launch another endpoint while the best answer can still reach the quorum
+            if (next < candidates.length && best + (candidates.length - next) + pending >= quorum) {
+              if (best + pending < quorum) launch();
+            } else if (pending === 0) {
+              settled = true;
+              reject(new Error(`No ${quorum} of ${candidates.length} RPC endpoints agreed on ${payload.method}`));
+            }
+          });
+      };
+
+      for (let i = 0; i < Math.min(quorum, candidates.length); i++) launch();
+    });
+  }
+}
+
+/**
+ * ethers provider on top of a pool, so contracts and ethers' own error
+ * decoding work unchanged. A quorum above 1 makes every comparable read
+ * require that many agreeing endpoints.
+ */
+export class PooledRpcProvider extends ethers.JsonRpcApiProvider {
+  private readonly pool: RpcPool;
+  private readonly quorum: number;
+
+  constructor(pool: RpcPool, network: ethers.Network, quorum = 1) {
+    super(network, { staticNetwork: network, batchMaxCount: 1 });
+    this.pool = pool;
+    this.quorum = quorum;
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<RpcResponse[]> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    return Promise.all(payloads.map(p => this.pool.request(p, this.quorum)));
+  }
+}
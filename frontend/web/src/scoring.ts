@@ -0,0 +1,93 @@
+// scoring.ts
+//
+// TypeScript mirror of contracts/BiasScoring.sol, the classification the
+// contract applies to decrypted features in analyzeBias. Any change here must
+// be made to the Solidity library as well; test/BiasScoring.ts checks parity.
+
+export const SCORING_MODEL_VERSION = 1;
+
+export const BASELINE_SCORE = 50;
+
+const UINT32_MAX = 0xffffffff;
+
+export type BiasCategory = "HighlyBiased" | "ModeratelyBiased" | "SlightlyBiased" | "Neutral";
+export type BaselineComparison = "SignificantDeviation" | "ModerateDeviation" | "WithinNormalRange";
+export type MediaOutlet = "OutletA" | "OutletB" | "OutletC" | "OutletD" | "OutletE";
+
+// Checked from the top: a combined score strictly above `above` gets `category`
+export const BIAS_THRESHOLDS: { category: BiasCategory; above: number }[] = [
+  { category: "HighlyBiased", above: 80 },
+  { category: "ModeratelyBiased", above: 60 },
+  { category: "SlightlyBiased", above: 40 },
+  { category: "Neutral", above: -1 }
+];
+
+export const BIAS_CATEGORIES: BiasCategory[] = BIAS_THRESHOLDS.map(t => t.category);
+
+export const DEVIATION_THRESHOLDS: { comparison: BaselineComparison; above: number }[] = [
+  { comparison: "SignificantDeviation", above: 30 },
+  { comparison: "ModerateDeviation", above: 15 },
+  { comparison: "WithinNormalRange", above: -1 }
+];
+
+const MEDIA_OUTLETS: MediaOutlet[] = ["OutletA", "OutletB", "OutletC", "OutletD", "OutletE"];
+
+export interface BiasScoreResult {
+  score: number;
+  biasScore: BiasCategory;
+  comparisonResult: BaselineComparison;
+  mediaOutlet: MediaOutlet;
+  version: number;
+}
+
+const assertUint32 = (name: string, value: number) => {
+  if (!Number.isInteger(value) || value < 0 || value > UINT32_MAX) {
+    throw new RangeError(`${name} is not a uint32: ${value}`);
+  }
+};
+
+// Integer part of (2 * content + 3 * sentiment) / 5, with the contract's checked uint32 arithmetic
+export function combinedBiasScore(contentScore: number, sentiment: number): number {
+  assertUint32("contentScore", contentScore);
+  assertUint32("sentiment", sentiment);
+  const weighted = contentScore * 2 + sentiment * 3;
+  if (contentScore * 2 > UINT32_MAX || sentiment * 3 > UINT32_MAX || weighted > UINT32_MAX) {
+    throw new RangeError(`Weighted score overflows uint32, the contract would revert: ${weighted}`);
+  }
+  return Math.floor(weighted / 5);
+}
+
+export function calculateBiasScore(contentScore: number, sentiment: number): BiasCategory {
+  const score = combinedBiasScore(contentScore, sentiment);
+  return BIAS_THRESHOLDS.find(t => score > t.above)!.category;
+}
+
+export function compareWithBaseline(contentScore: number, sentiment: number): BaselineComparison {
+  assertUint32("contentScore", contentScore);
+  assertUint32("sentiment", sentiment);
+  const contentDiff = Math.abs(contentScore - BASELINE_SCORE);
+  const sentimentDiff = Math.abs(sentiment - BASELINE_SCORE);
+  return DEVIATION_THRESHOLDS.find(t => contentDiff > t.above || sentimentDiff > t.above)!.comparison;
+}
+
+export function identifyMediaOutlet(keywords: number): MediaOutlet {
+  assertUint32("keywords", keywords);
+  return MEDIA_OUTLETS[keywords % 5];
+}
+
+export function scoreFeatures(features: { content: number; sentiment: number; keywords: number }): BiasScoreResult {
+  return {
+    score: combinedBiasScore(features.content, features.sentiment),
+    biasScore: calculateBiasScore(features.content, features.sentiment),
+    comparisonResult: compareWithBaseline(features.content, features.sentiment),
+    mediaOutlet: identifyMediaOutlet(features.keywords),
+    version: SCORING_MODEL_VERSION
+  };
+}
+
+// CSS level used by the dashboard badges for a contract bias category
+export function biasLevel(category: string): "low" | "medium" | "high" {
+  if (category === "HighlyBiased") return "high";
+  if (category === "Neutral") return "low";
+  return "medium";
+}
@@ -0,0 +1,15 @@
+// transactions.ts
+//
+// The dashboard's transaction tracker, watching through the read endpoints
+// and persisted per chain and contract.
+
+import { config, getReadProvider } from "./contract";
+import { requiredConfirmations } from "./networks";
+import { TxManager } from "./txManager";
+
+export const txManager = new TxManager(
+  getReadProvider(),
+  requiredConfirmations(config.chainId),
+  localStorage,
+  `newsbias:transactions:${config.chainId}:${config.contractAddress.toLowerCase()}`
+);
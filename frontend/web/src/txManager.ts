@@ -0,0 +1,262 @@
+// txManager.ts
+//
+// Lifecycle of the transactions the dashboard sends: submitted, mined, then
+// confirmed once the chain's confirmation depth is reached; failed when it
+// reverts and replaced when the wallet mined another transaction with its
+// nonce. Transactions are watched through the read endpoints rather than the
+// wallet and persisted, so a reload resumes watching the pending ones. The
+// dashboard's instance lives in transactions.ts.
+
+import { ethers } from "ethers";
+
+export type TxStatus = "submitted" | "mined" | "confirmed" | "failed" | "replaced";
+
+export interface TrackedTx {
+  // Hash the wallet first returned; `hash` differs once the wallet resent it with a higher fee
+  id: string;
+  hash: string;
+  label: string;
+  from: string;
+  nonce: number;
+  to: string | null;
+  // keccak256 of the calldata, tells a sped-up resend from a different transaction
+  dataHash: string;
+  // Replacements are searched from this block on
+  scanFrom: number;
+  status: TxStatus;
+  submittedAt: number;
+  confirmations: number;
+  blockNumber?: number;
+  gasUsed?: string;
+  replacedBy?: string;
+  error?: string;
+}
+
+const POLL_INTERVAL_MS = 2000;
+// Finished transactions kept for the history
+const MAX_FINISHED = 50;
+
+const isFinal = (status: TxStatus) => status === "confirmed" || status === "failed" || status === "replaced";
+
+const sleep = (ms: number) => new Promise(res => setTimeout(res, ms));
+
+// Where the tracked transactions are persisted, localStorage in the dashboard
+export interface TxStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+interface Waiter {
+  resolve: (receipt: ethers.TransactionReceipt) => void;
+  reject: (error: Error) => void;
+}
+
+export class TxManager {
+  private readonly entries = new Map<string, TrackedTx>();
+  private readonly waiters = new Map<string, Waiter[]>();
+  private readonly watching = new Set<string>();
+  // Transactions whose nonce was used by a transaction not found yet
+  private readonly unmatched = new Set<string>();
+  private readonly listeners = new Set<(txs: TrackedTx[]) => void>();
+
+  constructor(
+    private readonly provider: ethers.Provider,
+    readonly confirmations: number,
+    private readonly storage: TxStorage,
+    private readonly storageKey: string
+  ) {
+    for (const entry of this.load()) {
+      this.entries.set(entry.id, entry);
+    }
+  }
+
+  // Newest first
+  list(): TrackedTx[] {
+    return [...this.entries.values()].sort((a, b) => b.submittedAt - a.submittedAt);
+  }
+
+  get(id: string): TrackedTx | undefined {
+    return this.entries.get(id);
+  }
+
+  subscribe(listener: (txs: TrackedTx[]) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.list());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Starts tracking a transaction the wallet just sent. Resolves with its
+   * receipt once it is mined successfully, rejects when it reverts or is
+   * replaced; confirmations keep being tracked afterwards.
+   */
+  async track(tx: ethers.TransactionResponse, label: string): Promise<ethers.TransactionReceipt> {
+    const entry: TrackedTx = {
+      id: tx.hash,
+      hash: tx.hash,
+      label,
+      from: tx.from.toLowerCase(),
+      nonce: tx.nonce,
+      to: tx.to ? tx.to.toLowerCase() : null,
+      dataHash: ethers.keccak256(tx.data),
+      scanFrom: await this.provider.getBlockNumber(),
+      status: "submitted",
+      submittedAt: Date.now(),
+      confirmations: 0
+    };
+    this.entries.set(entry.id, entry);
+    this.changed();
+
+    const receipt = this.wait(entry.id);
+    this.watch(entry.id);
+    return receipt;
+  }
+
+  // Resolves with the receipt once the transaction is mined, also for transactions resumed after a reload
+  wait(id: string): Promise<ethers.TransactionReceipt> {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      // Pruned from the history or lost with the storage, only a receipt already on chain can answer
+      return this.provider.getTransactionReceipt(id).then(receipt => {
+        if (!receipt) throw new Error(`Transaction ${id} is not tracked and has not been mined`);
+        if (receipt.status !== 1) throw new Error(`Transaction ${id} reverted in block ${receipt.blockNumber}`);
+        return receipt;
+      });
+    }
+    if (entry.status === "confirmed") {
+      return this.provider.getTransactionReceipt(entry.hash).then(receipt => {
+        if (!receipt) throw new Error(`${entry.label}: receipt of ${entry.hash} not found`);
+        return receipt;
+      });
+    }
+    if (isFinal(entry.status)) {
+      return Promise.reject(new Error(`${entry.label}: ${entry.error}`));
+    }
+    return new Promise((resolve, reject) => {
+      this.waiters.set(id, [...(this.waiters.get(id) ?? []), { resolve, reject }]);
+    });
+  }
+
+  // Watches the transactions a previous page load left unfinished, returns their ids
+  resume(): string[] {
+    const pending = this.list().filter(entry => !isFinal(entry.status));
+    pending.forEach(entry => this.watch(entry.id));
+    return pending.map(entry => entry.id);
+  }
+
+  private async watch(id: string) {
+    if (this.watching.has(id)) return;
+    this.watching.add(id);
+    try {
+      for (;;) {
+        const entry = this.entries.get(id);
+        if (!entry || isFinal(entry.status)) return;
+        try {
+          await this.poll(entry);
+        } catch (e) {
+          console.warn(`Checking transaction ${entry.hash} failed:`, e);
+        }
+        if (isFinal(entry.status)) return;
+        await sleep(POLL_INTERVAL_MS);
+      }
+    } finally {
+      this.watching.delete(id);
+    }
+  }
+
+  private async poll(entry: TrackedTx) {
+    const receipt = await this.provider.getTransactionReceipt(entry.hash);
+    if (receipt) {
+      const head = await this.provider.getBlockNumber();
+      const confirmations = Math.max(1, head - receipt.blockNumber + 1);
+      const mined = {
+        confirmations,
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed.toString()
+      };
+      if (receipt.status !== 1) {
+        this.update(entry, { ...mined, status: "failed", error: `Reverted in block ${receipt.blockNumber}` });
+        this.settle(entry.id, new Error(`${entry.label} reverted in block ${receipt.blockNumber}`));
+      } else {
+        this.update(entry, { ...mined, status: confirmations >= this.confirmations ? "confirmed" : "mined" });
+        this.settle(entry.id, receipt);
+      }
+      return;
+    }
+
+    if (entry.status === "mined") {
+      // The block holding it was reorganized away, it is back in the mempool or replaced
+      this.update(entry, { status: "submitted", confirmations: 0, blockNumber: undefined, gasUsed: undefined });
+    }
+
+    // Without a receipt the nonce is only used once another transaction took its place
+    const nonce = await this.provider.getTransactionCount(entry.from, "latest");
+    if (nonce <= entry.nonce) return;
+    // Mined between the two reads
+    if (await this.provider.getTransactionReceipt(entry.hash)) return;
+
+    const replacement = await this.findReplacement(entry);
+    if (!replacement && !this.unmatched.has(entry.id)) {
+      // The head read for the scan can trail the nonce read, look at the next blocks once more
+      this.unmatched.add(entry.id);
+      return;
+    }
+    this.unmatched.delete(entry.id);
+    if (replacement && replacement.to?.toLowerCase() === entry.to && ethers.keccak256(replacement.data) === entry.dataHash) {
+      // Same call resent with a higher fee, its receipt is picked up on the next poll
+      this.update(entry, { hash: replacement.hash });
+      return;
+    }
+    this.update(entry, {
+      status: "replaced",
+      replacedBy: replacement?.hash,
+      error: replacement ? `Replaced by ${replacement.hash}` : "Dropped, its nonce was used by another transaction"
+    });
+    this.settle(entry.id, new Error(`${entry.label} was replaced in the wallet`));
+  }
+
+  // The mined transaction that used the same sender and nonce
+  private async findReplacement(entry: TrackedTx): Promise<ethers.TransactionResponse | null> {
+    const head = await this.provider.getBlockNumber();
+    for (let blockNumber = entry.scanFrom; blockNumber <= head; blockNumber++) {
+      const block = await this.provider.getBlock(blockNumber, true);
+      const tx = block?.prefetchedTransactions.find(t => t.from.toLowerCase() === entry.from && t.nonce === entry.nonce);
+      if (tx) return tx;
+      entry.scanFrom = blockNumber + 1;
+    }
+    return null;
+  }
+
+  private update(entry: TrackedTx, changes: Partial<TrackedTx>) {
+    Object.assign(entry, changes);
+    this.changed();
+  }
+
+  private settle(id: string, result: ethers.TransactionReceipt | Error) {
+    const waiters = this.waiters.get(id) ?? [];
+    this.waiters.delete(id);
+    waiters.forEach(waiter => (result instanceof Error ? waiter.reject(result) : waiter.resolve(result)));
+  }
+
+  private changed() {
+    const finished = this.list().filter(tx => isFinal(tx.status));
+    finished.slice(MAX_FINISHED).forEach(tx => this.entries.delete(tx.id));
+    this.save();
+    const txs = this.list();
+    this.listeners.forEach(listener => listener(txs));
+  }
+
+  private load(): TrackedTx[] {
+    try {
+      return JSON.parse(this.storage.getItem(this.storageKey) || "[]");
+    } catch {
+      return [];
+    }
+  }
+
+  private save() {
+    this.storage.setItem(this.storageKey, JSON.stringify(this.list()));
+  }
+}
@@ -1,14 +1,44 @@
-// src/types.d.ts
+// src/type/window.d.ts
+
+// EIP-1193 provider injected by a wallet extension
+interface EIP1193Provider {
+  isMetaMask?: boolean;
+  isOkxWallet?: boolean;
+  isTrust?: boolean;
+  isCoinbaseWallet?: boolean;
+  request: (request: { method: string; params?: unknown[] | object }) => Promise<any>;
+  on: (event: string, handler: (...args: any[]) => void) => void;
+  removeListener: (event: string, handler: (...args: any[]) => void) => void;
+  selectedAddress?: string;
+  chainId?: string;
+}
+
+// EIP-6963: wallets announce themselves instead of racing for window.ethereum
+interface EIP6963ProviderInfo {
+  uuid: string;
+  name: string;
+  // Data URI of the wallet's icon
+  icon: string;
+  // Reverse DNS name of the wallet, e.g. io.metamask
+  rdns: string;
+}
+
+interface EIP6963ProviderDetail {
+  info: EIP6963ProviderInfo;
+  provider: EIP1193Provider;
+}
+
+interface EIP6963AnnounceProviderEvent extends CustomEvent<EIP6963ProviderDetail> {
+  type: "eip6963:announceProvider";
+}
+
+interface WindowEventMap {
+  "eip6963:announceProvider": EIP6963AnnounceProviderEvent;
+  "eip6963:requestProvider": Event;
+}
+
 interface Window {
-  ethereum?: {
-    isMetaMask?: boolean;
-    isOkxWallet?: boolean;
-    isTrust?: boolean;
-    isCoinbaseWallet?: boolean;
-    request: (request: { method: string; params?: any[] }) => Promise<any>;
-    on: (event: string, handler: (...args: any[]) => void) => void;
-    removeListener: (event: string, handler: (...args: any[]) => void) => void;
-    selectedAddress?: string;
-    chainId?: string;
-  };
-}
\ No newline at end of file
+  ethereum?: EIP1193Provider;
+  okxwallet?: EIP1193Provider;
+  BinanceChain?: EIP1193Provider;
+}
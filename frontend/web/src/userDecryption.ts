@@ -0,0 +1,141 @@
+// userDecryption.ts
+//
+// Decrypts handles for the connected account only, without a public
+// decryption: the KMS re-encrypts each plaintext under a keypair generated
+// here, and the wallet signs an EIP-712 request binding that public key to
+// the account and contract. The keypair and signature form a permit kept in
+// memory until the page is reloaded, so the wallet is asked once rather than
+// per decryption. It is never written to storage: anyone holding the private
+// key and signature can decrypt what the account may until the permit expires.
+
+import { ethers } from "ethers";
+import type { NewsBiasFHE } from "../../../types";
+import { config, getReadProvider } from "./contract";
+import { getAclAddress, getFhevmInstance } from "./fhe";
+import { TxTracker, allowBiasCounts } from "./newsBiasClient";
+
+interface DecryptionPermit {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  contractAddresses: string[];
+  startTimestamp: number;
+  durationDays: number;
+}
+
+const PERMIT_DURATION_DAYS = 1;
+// A permit this close to expiring is renewed instead of failing mid-request
+const PERMIT_RENEW_MARGIN_SECONDS = 600;
+
+const ACL_ABI = ["function isAllowed(bytes32 handle, address account) view returns (bool)"];
+
+const permits = new Map<string, DecryptionPermit>();
+
+const permitKey = (account: string, contractAddress: string) =>
+  `${config.chainId}:${contractAddress.toLowerCase()}:${account.toLowerCase()}`;
+
+const isFresh = (permit: DecryptionPermit) =>
+  permit.startTimestamp + permit.durationDays * 86400 - PERMIT_RENEW_MARGIN_SECONDS > Date.now() / 1000;
+
+async function getPermit(signer: ethers.Signer, contractAddress: string): Promise<DecryptionPermit> {
+  const account = await signer.getAddress();
+  const key = permitKey(account, contractAddress);
+  const cached = permits.get(key);
+  if (cached && isFresh(cached)) return cached;
+
+  const instance = await getFhevmInstance();
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const contractAddresses = [contractAddress];
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = instance.createEIP712(publicKey, contractAddresses, startTimestamp, PERMIT_DURATION_DAYS);
+  // ethers derives EIP712Domain from the domain, only the request type is passed
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const permit: DecryptionPermit = {
+    publicKey,
+    privateKey,
+    signature,
+    contractAddresses,
+    startTimestamp,
+    durationDays: PERMIT_DURATION_DAYS
+  };
+  permits.set(key, permit);
+  return permit;
+}
+
+const normalizeHandle = (handle: string) =>
+  ethers.zeroPadValue(handle.startsWith("0x") ? handle : `0x${handle}`, 32).toLowerCase();
+
+// The handles the ACL lets the account decrypt
+async function permittedHandles(account: string, handles: string[]): Promise<Set<string>> {
+  const acl = new ethers.Contract(await getAclAddress(), ACL_ABI, getReadProvider());
+  const candidates = [...new Set(handles.map(normalizeHandle))].filter(handle => handle !== ethers.ZeroHash);
+  const allowed = await Promise.all(candidates.map(handle => acl.isAllowed(handle, account) as Promise<boolean>));
+  return new Set(candidates.filter((_, i) => allowed[i]));
+}
+
+/**
+ * Plaintexts of the handles the signer's account may decrypt, keyed by
+ * handle. Uninitialized handles and handles the ACL does not grant the
+ * account are left out instead of failing the whole request; the wallet is
+ * only asked to sign when a permit is needed and something is left.
+ */
+export async function decryptForUser(
+  signer: ethers.Signer,
+  handles: string[],
+  contractAddress: string = config.contractAddress
+): Promise<Map<string, bigint>> {
+  const account = await signer.getAddress();
+  const permitted = [...(await permittedHandles(account, handles))];
+  if (permitted.length === 0) return new Map();
+
+  const permit = await getPermit(signer, contractAddress);
+  const instance = await getFhevmInstance();
+  const results = await instance.userDecrypt(
+    permitted.map(handle => ({ handle, contractAddress })),
+    permit.privateKey,
+    permit.publicKey,
+    permit.signature.replace("0x", ""),
+    permit.contractAddresses,
+    account,
+    permit.startTimestamp,
+    permit.durationDays
+  );
+
+  return new Map(
+    Object.entries(results).map(([handle, value]) => [normalizeHandle(handle), BigInt(value)])
+  );
+}
+
+/**
+ * The bias counts of `categories` decrypted for the analyst signing for
+ * `contract`, 0 for categories without analyses. The contract grants no
+ * count up front: the current counts the account cannot read yet are granted
+ * first, all in one allowBiasCounts transaction. A count updated in between
+ * is left undefined.
+ */
+export async function decryptBiasCounts(
+  contract: NewsBiasFHE,
+  categories: readonly string[],
+  tracker: TxTracker
+): Promise<Record<string, number | undefined>> {
+  const signer = contract.runner as ethers.Signer;
+  const handles = await Promise.all(categories.map(category => contract.getEncryptedBiasCount(category)));
+  const permitted = await permittedHandles(await signer.getAddress(), handles);
+  const ungranted = categories.filter(
+    (_, i) => handles[i] !== ethers.ZeroHash && !permitted.has(normalizeHandle(handles[i]))
+  );
+  if (ungranted.length > 0) await allowBiasCounts(contract, ungranted, tracker);
+
+  const plaintexts = await decryptForUser(signer, handles, await contract.getAddress());
+  return Object.fromEntries(
+    categories.map((category, i) => {
+      const plaintext = handles[i] === ethers.ZeroHash ? 0n : plaintexts.get(normalizeHandle(handles[i]));
+      return [category, plaintext === undefined ? undefined : Number(plaintext)];
+    })
+  );
+}
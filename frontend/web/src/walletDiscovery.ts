@@ -0,0 +1,123 @@
+// walletDiscovery.ts
+//
+// Finds the installed wallets. Wallets implementing EIP-6963 announce
+// themselves with their name, icon and rdns, so several extensions can be
+// offered side by side. Older wallets are only reachable through the globals
+// they inject, of which window.ethereum goes to whichever extension loaded
+// last; those globals are kept as a fallback for wallets that never announce.
+// A deployment on the local chain also gets the in-page dev wallets.
+
+import { devWalletsAvailable, getDevWallet } from "./devWallet";
+
+export interface DiscoveredWallet {
+  // EIP-6963 uuid, or the global the provider was found on
+  id: string;
+  name: string;
+  icon: string;
+  rdns?: string;
+  provider: EIP1193Provider;
+  source: "eip6963" | "injected" | "dev";
+}
+
+export interface KnownWallet {
+  // Global the wallet injects its provider into when it does not announce itself
+  global: "ethereum" | "okxwallet" | "BinanceChain";
+  name: string;
+  rdns: string;
+  icon: string;
+  installUrl: string;
+}
+
+// Wallets offered for installation when missing, and sniffed when they do not announce
+export const KNOWN_WALLETS: KnownWallet[] = [
+  {
+    global: "ethereum",
+    name: "MetaMask",
+    rdns: "io.metamask",
+    icon: "https://upload.wikimedia.org/wikipedia/commons/thumb/3/36/MetaMask_Fox.svg/1200px-MetaMask_Fox.svg.png",
+    installUrl: "https://metamask.io/"
+  },
+  {
+    global: "okxwallet",
+    name: "OKX Wallet",
+    rdns: "com.okex.wallet",
+    icon: "https://www.okx.com/favicon.ico",
+    installUrl: "https://www.okx.com/web3"
+  },
+  {
+    global: "BinanceChain",
+    name: "Binance Wallet",
+    rdns: "com.binance.wallet",
+    icon: "https://upload.wikimedia.org/wikipedia/commons/thumb/5/57/Binance_Logo.png/600px-Binance_Logo.png",
+    installUrl: "https://www.bnbchain.org/en/binance-wallet"
+  }
+];
+
+export const GENERIC_WALLET_ICON = "https://cdn-icons-png.flaticon.com/512/126/126472.png";
+
+function injectedWallets(): DiscoveredWallet[] {
+  return KNOWN_WALLETS.flatMap(({ global, name, rdns, icon }): DiscoveredWallet[] => {
+    const provider = window[global];
+    if (!provider) return [];
+    // Other wallets inject window.ethereum too, only a MetaMask flag makes it MetaMask
+    if (global === "ethereum" && !provider.isMetaMask) {
+      return [{ id: "injected:ethereum", name: "Browser Wallet", icon: GENERIC_WALLET_ICON, provider, source: "injected" }];
+    }
+    return [{ id: `injected:${global}`, name, icon, rdns, provider, source: "injected" }];
+  });
+}
+
+function devWallets(): DiscoveredWallet[] {
+  if (!devWalletsAvailable()) return [];
+  const wallet = (id: string, name: string, provider: EIP1193Provider): DiscoveredWallet => ({
+    id,
+    name,
+    icon: GENERIC_WALLET_ICON,
+    provider,
+    source: "dev"
+  });
+  return [
+    wallet("dev:hardhat", "Dev Wallet (Hardhat #0)", getDevWallet("hardhat")),
+    wallet("dev:burner", "Burner Wallet", getDevWallet("burner"))
+  ];
+}
+
+/**
+ * Announced wallets first, then the injected globals no announced wallet
+ * already provides (by provider object or rdns), then the dev wallets.
+ */
+function mergeWallets(announced: DiscoveredWallet[]): DiscoveredWallet[] {
+  const providers = new Set(announced.map(wallet => wallet.provider));
+  const rdns = new Set(announced.map(wallet => wallet.rdns));
+  const fallback = injectedWallets().filter(wallet => !providers.has(wallet.provider) && !rdns.has(wallet.rdns));
+  return [...announced, ...fallback, ...devWallets()];
+}
+
+/**
+ * Requests EIP-6963 announcements and reports the wallet list every time it
+ * changes, a wallet may announce itself after the request. Returns a
+ * function removing the listener.
+ */
+export function discoverWallets(onChange: (wallets: DiscoveredWallet[]) => void): () => void {
+  const announced = new Map<string, DiscoveredWallet>();
+
+  const onAnnounce = (event: EIP6963AnnounceProviderEvent) => {
+    const { info, provider } = event.detail;
+    if (!info?.uuid || !provider) return;
+    announced.set(info.uuid, {
+      id: info.uuid,
+      name: info.name,
+      icon: info.icon,
+      rdns: info.rdns,
+      provider,
+      source: "eip6963"
+    });
+    onChange(mergeWallets([...announced.values()]));
+  };
+
+  window.addEventListener("eip6963:announceProvider", onAnnounce);
+  window.dispatchEvent(new Event("eip6963:requestProvider"));
+  onChange(mergeWallets([...announced.values()]));
+
+  return () => window.removeEventListener("eip6963:announceProvider", onAnnounce);
+}
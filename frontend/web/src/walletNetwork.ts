@@ -0,0 +1,44 @@
+// walletNetwork.ts
+//
+// Moves the wallet to the chain the configured deployment lives on, adding
+// the chain from the network registry when the wallet does not know it yet.
+
+import { ethers } from "ethers";
+import { config } from "./contract";
+import { CHAINS, chainName, rpcUrlsFor } from "./networks";
+
+// EIP-3326: the wallet has not added the requested chain
+const UNRECOGNIZED_CHAIN = 4902;
+
+export async function getWalletChainId(provider: EIP1193Provider): Promise<number> {
+  return Number(await provider.request({ method: "eth_chainId" }));
+}
+
+const isUnrecognizedChain = (error: any) =>
+  error?.code === UNRECOGNIZED_CHAIN || error?.data?.originalError?.code === UNRECOGNIZED_CHAIN;
+
+export async function switchWalletChain(provider: EIP1193Provider, chainId: number = config.chainId): Promise<void> {
+  const hexChainId = ethers.toQuantity(chainId);
+  try {
+    await provider.request({ method: "wallet_switchEthereumChain", params: [{ chainId: hexChainId }] });
+  } catch (e) {
+    if (!isUnrecognizedChain(e)) throw e;
+    const chain = CHAINS[chainId];
+    if (!chain) {
+      throw new Error(`${chainName(chainId)} is not in the network registry`);
+    }
+    await provider.request({
+      method: "wallet_addEthereumChain",
+      params: [
+        {
+          chainId: hexChainId,
+          chainName: chain.name,
+          nativeCurrency: chain.nativeCurrency,
+          // The deployment's own endpoints, e.g. a local node on another port
+          rpcUrls: chainId === config.chainId ? rpcUrlsFor(chainId, config.rpcUrls) : chain.rpcUrls,
+          blockExplorerUrls: chain.blockExplorerUrl ? [chain.blockExplorerUrl] : undefined
+        }
+      ]
+    });
+  }
+}
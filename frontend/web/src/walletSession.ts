@@ -0,0 +1,152 @@
+// walletSession.ts
+//
+// The connected wallet as React state. The last wallet used is remembered and
+// reconnected on load through eth_accounts, which never prompts: a wallet that
+// no longer grants the site access just stays disconnected. The wallet's
+// account, chain and disconnect events are handled here, each rebuilding the
+// BrowserProvider, and its listeners are removed whenever the wallet changes.
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ethers } from "ethers";
+import { setWalletProvider } from "./contract";
+import { DiscoveredWallet, discoverWallets } from "./walletDiscovery";
+import { getWalletChainId } from "./walletNetwork";
+
+export type SessionWallet = Pick<DiscoveredWallet, "id" | "name" | "rdns" | "provider">;
+
+export interface WalletSession {
+  account: string;
+  chainId: number | null;
+  provider: ethers.BrowserProvider | null;
+  connect: (wallet: SessionWallet) => Promise<void>;
+  disconnect: () => void;
+}
+
+interface SessionState {
+  account: string;
+  chainId: number | null;
+  provider: ethers.BrowserProvider | null;
+}
+
+interface RememberedWallet {
+  id: string;
+  rdns?: string;
+  name: string;
+}
+
+const STORAGE_KEY = "newsbias:wallet";
+// How long late EIP-6963 announcements are awaited for the remembered wallet
+const RESTORE_TIMEOUT_MS = 2000;
+
+const DISCONNECTED: SessionState = { account: "", chainId: null, provider: null };
+
+function readRemembered(): RememberedWallet | null {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+  } catch {
+    return null;
+  }
+}
+
+// EIP-6963 uuids change with every page load, the rdns identifies a wallet across reloads
+const isRemembered = (remembered: RememberedWallet, wallet: SessionWallet) =>
+  remembered.rdns ? wallet.rdns === remembered.rdns : wallet.id === remembered.id;
+
+export function useWalletSession(): WalletSession {
+  const [state, setState] = useState<SessionState>(DISCONNECTED);
+  // Removes the listeners of the connected wallet
+  const detach = useRef<(() => void) | null>(null);
+
+  const release = useCallback(() => {
+    detach.current?.();
+    detach.current = null;
+    setWalletProvider(null);
+    setState(DISCONNECTED);
+  }, []);
+
+  const attach = useCallback(
+    (wallet: SessionWallet, account: string, chainId: number) => {
+      detach.current?.();
+      const injected = wallet.provider;
+      // A BrowserProvider is bound to the account and chain it was created for
+      const update = (changes: Partial<SessionState>) =>
+        setState(current => ({ ...current, ...changes, provider: new ethers.BrowserProvider(injected) }));
+
+      const onAccountsChanged = (accounts: string[]) => {
+        // No account left: the wallet was locked or the site's access revoked
+        if (accounts.length === 0) release();
+        else update({ account: accounts[0] });
+      };
+      const onChainChanged = (chainId: string) => update({ chainId: Number(chainId) });
+      const onDisconnect = () => release();
+
+      injected.on("accountsChanged", onAccountsChanged);
+      injected.on("chainChanged", onChainChanged);
+      injected.on("disconnect", onDisconnect);
+      detach.current = () => {
+        injected.removeListener("accountsChanged", onAccountsChanged);
+        injected.removeListener("chainChanged", onChainChanged);
+        injected.removeListener("disconnect", onDisconnect);
+      };
+
+      setWalletProvider(injected);
+      setState({ account, chainId, provider: new ethers.BrowserProvider(injected) });
+    },
+    [release]
+  );
+
+  const connect = useCallback(
+    async (wallet: SessionWallet) => {
+      const accounts: string[] = await wallet.provider.request({ method: "eth_requestAccounts" });
+      if (!accounts[0]) {
+        throw new Error(`${wallet.name} returned no account`);
+      }
+      const chainId = await getWalletChainId(wallet.provider);
+      const remembered: RememberedWallet = { id: wallet.id, rdns: wallet.rdns, name: wallet.name };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(remembered));
+      attach(wallet, accounts[0], chainId);
+    },
+    [attach]
+  );
+
+  const disconnect = useCallback(() => {
+    localStorage.removeItem(STORAGE_KEY);
+    release();
+  }, [release]);
+
+  useEffect(() => {
+    const remembered = readRemembered();
+    if (!remembered) return;
+
+    let settled = false;
+    const restore = async (wallet: SessionWallet) => {
+      try {
+        const accounts: string[] = await wallet.provider.request({ method: "eth_accounts" });
+        if (accounts[0] && !settled) {
+          attach(wallet, accounts[0], await getWalletChainId(wallet.provider));
+        }
+      } catch (e) {
+        console.warn(`Reconnecting ${remembered.name} failed:`, e);
+      }
+    };
+
+    let found = false;
+    const stopDiscovery = discoverWallets(wallets => {
+      const wallet = wallets.find(w => isRemembered(remembered, w));
+      if (!wallet || found) return;
+      found = true;
+      restore(wallet);
+    });
+    const timer = setTimeout(stopDiscovery, RESTORE_TIMEOUT_MS);
+
+    return () => {
+      settled = true;
+      clearTimeout(timer);
+      stopDiscovery();
+      detach.current?.();
+      detach.current = null;
+    };
+  }, [attach]);
+
+  return { ...state, connect, disconnect };
+}
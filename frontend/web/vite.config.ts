@@ -1,9 +1,18 @@
-import { defineConfig } from "vite";
+import { defineConfig, searchForWorkspaceRoot } from "vite";
 import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
   define: {
     'process.env': process.env
+  },
+  // The typed contract factories are generated into the repository root's types/
+  resolve: {
+    dedupe: ["ethers"]
+  },
+  server: {
+    fs: {
+      allow: [searchForWorkspaceRoot(process.cwd()), "../../types"]
+    }
   }
 });
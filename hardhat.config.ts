@@ -1,20 +1,41 @@
+import "dotenv/config";
 import { HardhatUserConfig } from "hardhat/config";
+import { NetworksUserConfig } from "hardhat/types";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "hardhat-deploy";
+
+import { deployerAccounts, selectedNetwork } from "./src/accounts";
+import { CHAINS, LOCAL_CHAIN_ID } from "./frontend/web/src/networks";
+import "./tasks/NewsBiasFHE";
+
+const network = selectedNetwork();
+
+// One network per chain of the registry the frontend uses as well
+const networks: NetworksUserConfig = {
+  hardhat: {
+    chainId: LOCAL_CHAIN_ID,
+  },
+};
+for (const chain of Object.values(CHAINS)) {
+  const accounts =
+    chain.hardhatNetwork === network ? deployerAccounts() : undefined;
+  // A local node keeps its unlocked accounts unless a deployer key is set
+  const chainAccounts = chain.isLocal ? accounts : (accounts ?? []);
+  networks[chain.hardhatNetwork] = {
+    chainId: chain.chainId,
+    url: process.env[chain.rpcUrlEnv] || chain.rpcUrls[0],
+    ...(chainAccounts ? { accounts: chainAccounts } : {}),
+  };
+}
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
-  networks: {
-    hardhat: {
-      chainId: 31337,
-    },
-    sepolia: {
-      chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
-    },
+  namedAccounts: {
+    deployer: 0,
   },
+  networks,
   solidity: {
     version: "0.8.24",
     settings: {
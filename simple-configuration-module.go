@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\simple-configuration-module.go
-// Generated at: 2025-10-11T09:19:08.729Z
\ No newline at end of file
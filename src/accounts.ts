@@ -0,0 +1,62 @@
+import fs from "fs";
+import { Wallet } from "ethers";
+
+/**
+ * Private keys for the deployer of a live network, resolved without prompting:
+ *
+ * 1. `DEPLOYER_KEYSTORE`: path to an encrypted JSON keystore, unlocked with
+ *    `DEPLOYER_KEYSTORE_PASSWORD` or the first line of `DEPLOYER_KEYSTORE_PASSWORD_FILE`
+ * 2. `DEPLOYER_PRIVATE_KEY`
+ *
+ * Returns `undefined` when neither is set so the network keeps its default
+ * accounts, e.g. the unlocked accounts of a local hardhat node. A keystore
+ * without a password is reported and treated the same, so commands that need
+ * no deployer still run.
+ */
+export function deployerAccounts(
+  env: NodeJS.ProcessEnv = process.env,
+): string[] | undefined {
+  if (env.DEPLOYER_KEYSTORE) {
+    // dotenv loads the blank entries of .env.example as "", which count as unset
+    const password =
+      env.DEPLOYER_KEYSTORE_PASSWORD ||
+      readPasswordFile(env.DEPLOYER_KEYSTORE_PASSWORD_FILE);
+    if (password === undefined) {
+      console.warn(
+        "DEPLOYER_KEYSTORE is set but neither DEPLOYER_KEYSTORE_PASSWORD nor DEPLOYER_KEYSTORE_PASSWORD_FILE, the keystore is not used",
+      );
+      return undefined;
+    }
+    const wallet = Wallet.fromEncryptedJsonSync(
+      fs.readFileSync(env.DEPLOYER_KEYSTORE, "utf8"),
+      password,
+    );
+    return [wallet.privateKey];
+  }
+
+  if (env.DEPLOYER_PRIVATE_KEY) {
+    // Validates the key early instead of failing on the first transaction
+    return [new Wallet(env.DEPLOYER_PRIVATE_KEY).privateKey];
+  }
+
+  return undefined;
+}
+
+/**
+ * Network of the running hardhat command, from `--network` or else
+ * `HARDHAT_NETWORK`. The config is loaded before hardhat resolves it, and only
+ * this network needs the deployer: decrypting a keystore runs scrypt.
+ */
+export function selectedNetwork(
+  argv: string[] = process.argv,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  const index = argv.indexOf("--network");
+  if (index !== -1 && argv[index + 1]) return argv[index + 1];
+  return env.HARDHAT_NETWORK || "hardhat";
+}
+
+function readPasswordFile(file: string | undefined): string | undefined {
+  if (!file) return undefined;
+  return fs.readFileSync(file, "utf8").split(/\r?\n/)[0];
+}
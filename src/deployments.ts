@@ -0,0 +1,159 @@
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+
+import { NewsBiasFHE__factory, UniversalAdapter__factory } from "../types";
+import { CHAINS, isLocalChain } from "../frontend/web/src/networks";
+
+const ROOT = path.join(__dirname, "..");
+const MANIFEST_DIR = path.join(ROOT, "deployments", "manifests");
+const FRONTEND_SRC = path.join(ROOT, "frontend", "web", "src");
+
+/**
+ * Typed factories of the deployed contracts. The frontend builds its contract
+ * instances from the same generated factories, so their ABIs are what a
+ * deployment has to match.
+ */
+export const FACTORIES = {
+  UniversalAdapter: UniversalAdapter__factory,
+  NewsBiasFHE: NewsBiasFHE__factory,
+};
+
+export type DeployedContractName = keyof typeof FACTORIES;
+
+export interface DeploymentRecord {
+  address: string;
+  txHash: string;
+  blockNumber: number;
+  abiHash: string;
+  deployer: string;
+  deployedAt: string;
+}
+
+export interface DeploymentManifest {
+  chainId: number;
+  network: string;
+  rpcUrl: string;
+  contracts: Record<string, DeploymentRecord>;
+}
+
+export interface FrontendConfig {
+  // Read endpoints tried in order; empty uses the frontend's defaults for the chain
+  rpcUrls: string[];
+  // Endpoints that must agree on critical reads
+  rpcQuorum: number;
+  chainId: number;
+  contractAddress: string;
+  metadataAddress: string;
+  deployer: string;
+  // First block the frontend scans for contract logs
+  fromBlock: number;
+  // Seconds an analysis request may wait for the oracle before a retry is offered
+  analysisTimeout: number;
+}
+
+/**
+ * Hash of the canonical JSON encoding of an ABI, used to tell whether a
+ * deployed contract still matches the compiled artifact.
+ */
+export function abiHash(abi: unknown): string {
+  return ethers.id(JSON.stringify(abi));
+}
+
+export function manifestPath(chainId: number): string {
+  return path.join(MANIFEST_DIR, `${chainId}.json`);
+}
+
+export function readManifest(chainId: number): DeploymentManifest | undefined {
+  const file = manifestPath(chainId);
+  if (!fs.existsSync(file)) return undefined;
+  return JSON.parse(fs.readFileSync(file, "utf8")) as DeploymentManifest;
+}
+
+export function writeManifest(manifest: DeploymentManifest): string {
+  const file = manifestPath(manifest.chainId);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n");
+  return file;
+}
+
+/**
+ * RPC URL recorded in a manifest. Manifests of live networks are committed and
+ * providers put their API key in the path or query of the URL, so only its
+ * origin is kept there.
+ */
+export function manifestRpcUrl(chainId: number, url: string): string {
+  return isLocalChain(chainId) ? url : new URL(url).origin;
+}
+
+/**
+ * RPC endpoints the frontend reads from. The deployment RPC URL is only
+ * reused for a local node, a live network URL may carry a provider key that
+ * must not end up in the frontend bundle.
+ */
+function frontendRpcUrls(manifest: DeploymentManifest): string[] {
+  const configured = process.env.FRONTEND_RPC_URLS;
+  if (configured) {
+    return configured
+      .split(",")
+      .map((url) => url.trim())
+      .filter((url) => url !== "");
+  }
+  return isLocalChain(manifest.chainId) ? [manifest.rpcUrl] : [];
+}
+
+/**
+ * Writes `frontend/web/src/config.json` for the deployment recorded in
+ * `manifest`. Fails when the generated typechain ABI no longer matches the ABI
+ * that was deployed, instead of pointing the frontend at a mismatched contract,
+ * and for a chain missing from the network registry the frontend switches
+ * wallets with.
+ */
+export function writeFrontendConfig(manifest: DeploymentManifest): void {
+  if (!CHAINS[manifest.chainId]) {
+    throw new Error(
+      `Chain ${manifest.chainId} is not in the network registry (frontend/web/src/networks.ts)`,
+    );
+  }
+
+  const newsBias = manifest.contracts.NewsBiasFHE;
+  if (!newsBias) {
+    throw new Error(
+      `No NewsBiasFHE deployment recorded for chain ${manifest.chainId}`,
+    );
+  }
+
+  for (const [name, record] of Object.entries(manifest.contracts)) {
+    // From block 0 the first sync of a live chain would scan it from genesis
+    if (record.blockNumber === 0 && !isLocalChain(manifest.chainId)) {
+      throw new Error(
+        `No deployment block recorded for ${name} on chain ${manifest.chainId}, run the deploy script again to record it`,
+      );
+    }
+    const factory = FACTORIES[name as DeployedContractName];
+    if (!factory) continue;
+    if (abiHash(factory.abi) !== record.abiHash) {
+      throw new Error(
+        `Generated ABI of ${name} differs from the deployed one on chain ${manifest.chainId}, redeploy first`,
+      );
+    }
+  }
+
+  const config: FrontendConfig = {
+    rpcUrls: frontendRpcUrls(manifest),
+    rpcQuorum: Number(process.env.FRONTEND_RPC_QUORUM || 1),
+    chainId: manifest.chainId,
+    contractAddress: newsBias.address,
+    metadataAddress:
+      manifest.contracts.UniversalAdapter?.address ?? ethers.ZeroAddress,
+    deployer: newsBias.deployer,
+    fromBlock: Math.min(
+      ...Object.values(manifest.contracts).map((record) => record.blockNumber),
+    ),
+    analysisTimeout: Number(process.env.FRONTEND_ANALYSIS_TIMEOUT || 600),
+  };
+  fs.writeFileSync(
+    path.join(FRONTEND_SRC, "config.json"),
+    JSON.stringify(config, null, 2) + "\n",
+  );
+}
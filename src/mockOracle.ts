@@ -0,0 +1,191 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+export type DecryptionRequest = ReturnType<
+  HardhatRuntimeEnvironment["fhevm"]["parseDecryptionRequestEvents"]
+>[number];
+
+export interface OracleAnswer {
+  request: DecryptionRequest;
+  // Set when the callback was mined
+  receipt?: ethers.TransactionReceipt;
+  // Set when decrypting or the callback failed, the request is not tried again
+  error?: Error;
+}
+
+export interface OraclePoll {
+  // Requests seen for the first time by this poll
+  seen: DecryptionRequest[];
+  answers: OracleAnswer[];
+}
+
+export interface MockOracleOptions {
+  // Milliseconds each request is held after it was first seen
+  delayMs?: number;
+  now?: () => number;
+}
+
+const FULFILLED = new ethers.Interface([
+  "event DecryptionFulfilled(uint256 indexed requestID)",
+]);
+
+/**
+ * Stands in for the decryption oracle of one contract on a mock fhevm chain.
+ * The mock engine keeps the cleartexts of its ciphertexts: a request is
+ * answered by decrypting its handles, signing them as the KMS would and
+ * calling the contract's callback with the ABI-encoded cleartexts, one word
+ * per handle.
+ *
+ * `fhevm.awaitDecryptionOracle()` answers every pending request at once; this
+ * oracle holds each request for `delayMs` from when it was first seen and
+ * answers it on its own. Requests the contract already fulfilled, from a
+ * `DecryptionFulfilled` log, are skipped.
+ */
+export class MockOracle {
+  private scanned = -1;
+  private oracleAddress?: string;
+  // Unanswered requests with the time they were first seen, by request id
+  private readonly waiting = new Map<
+    bigint,
+    { request: DecryptionRequest; seenAt: number }
+  >();
+
+  constructor(
+    private readonly hre: HardhatRuntimeEnvironment,
+    private readonly contractAddress: string,
+    private readonly options: MockOracleOptions = {},
+  ) {}
+
+  /**
+   * Scans the blocks mined since the last poll for requests of the contract
+   * and answers the ones that have waited long enough. A failing read throws
+   * before anything is recorded, so the next poll scans the same blocks again.
+   */
+  async poll(): Promise<OraclePoll> {
+    const { ethers: hreEthers, fhevm } = this.hre;
+    this.oracleAddress ??= (
+      await fhevm.getRelayerMetadata()
+    ).DecryptionOracleAddress;
+
+    const seen: DecryptionRequest[] = [];
+    const head = await hreEthers.provider.getBlockNumber();
+    if (head > this.scanned) {
+      const range = { fromBlock: this.scanned + 1, toBlock: head };
+      const [requestLogs, fulfilledLogs] = await Promise.all([
+        hreEthers.provider.getLogs({ ...range, address: this.oracleAddress }),
+        hreEthers.provider.getLogs({
+          ...range,
+          address: this.contractAddress,
+          topics: [FULFILLED.getEvent("DecryptionFulfilled")!.topicHash],
+        }),
+      ]);
+      const fulfilled = new Set(
+        fulfilledLogs.map(
+          (log) => FULFILLED.parseLog(log)!.args.requestID as bigint,
+        ),
+      );
+      for (const request of fhevm.parseDecryptionRequestEvents(requestLogs)) {
+        if (
+          request.contractCallerAddress.toLowerCase() !==
+            this.contractAddress.toLowerCase() ||
+          fulfilled.has(request.requestID)
+        ) {
+          continue;
+        }
+        seen.push(request);
+        this.waiting.set(request.requestID, { request, seenAt: this.now() });
+      }
+      // Answered elsewhere in the meantime, e.g. by another oracle process
+      for (const requestID of fulfilled) this.waiting.delete(requestID);
+      this.scanned = head;
+    }
+
+    const answers: OracleAnswer[] = [];
+    for (const [requestID, { request, seenAt }] of this.waiting) {
+      if (this.now() - seenAt < (this.options.delayMs ?? 0)) continue;
+      this.waiting.delete(requestID);
+      try {
+        answers.push({ request, receipt: await this.answer(request) });
+      } catch (e) {
+        answers.push({ request, error: e as Error });
+      }
+    }
+    return { seen, answers };
+  }
+
+  /** Decrypts the handles of `request` and sends the signed callback. */
+  async answer(request: DecryptionRequest): Promise<ethers.TransactionReceipt> {
+    const { ethers: hreEthers, fhevm } = this.hre;
+    // One at a time, concurrent lookups race in the mock coprocessor's event sync
+    const cleartexts: bigint[] = [];
+    for (const handle of request.handlesBytes32Hex) {
+      cleartexts.push(await this.decrypt(request.requestID, handle));
+    }
+    // Typed as string[], the mock engine answers with the signed result and its signatures
+    const { signatures } = (await fhevm.debugger.createDecryptionSignatures(
+      request.handlesBytes32Hex,
+      cleartexts,
+    )) as unknown as { signatures: string[] };
+    // Laid out like the KMS proof: signer count, signatures, extra data v0
+    const proof = ethers.concat([
+      ethers.solidityPacked(["uint8"], [signatures.length]),
+      ...signatures,
+      ethers.solidityPacked(["uint8"], [0]),
+    ]);
+    const coder = ethers.AbiCoder.defaultAbiCoder();
+    const data = ethers.concat([
+      request.callbackSelectorBytes4Hex,
+      coder.encode(
+        ["uint256", "bytes", "bytes"],
+        [
+          request.requestID,
+          coder.encode(
+            cleartexts.map(() => "uint256"),
+            cleartexts,
+          ),
+          proof,
+        ],
+      ),
+    ]);
+
+    const [signer] = await hreEthers.getSigners();
+    const tx = await signer.sendTransaction({
+      to: request.contractCallerAddress,
+      data,
+    });
+    const receipt = await tx.wait();
+    if (!receipt || receipt.status !== 1) {
+      throw new Error(
+        `Callback of decryption request ${request.requestID} reverted in tx ${tx.hash}`,
+      );
+    }
+    return receipt;
+  }
+
+  private async decrypt(requestID: bigint, handle: string): Promise<bigint> {
+    const { fhevm } = this.hre;
+    // The ciphertext type is encoded in byte 30 of the handle
+    const type = ethers.getBytes(handle)[30];
+    switch (type) {
+      case FhevmType.ebool:
+        return (await fhevm.debugger.decryptEbool(handle)) ? 1n : 0n;
+      case FhevmType.euint4:
+      case FhevmType.euint8:
+      case FhevmType.euint16:
+      case FhevmType.euint32:
+      case FhevmType.euint64:
+      case FhevmType.euint128:
+      case FhevmType.euint256:
+        return fhevm.debugger.decryptEuint(type, handle);
+      default:
+        throw new Error(
+          `Decryption request ${requestID} asks for an unsupported ciphertext type ${type}`,
+        );
+    }
+  }
+
+  private now(): number {
+    return (this.options.now ?? Date.now)();
+  }
+}
@@ -0,0 +1,420 @@
+import fs from "fs";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import {
+  emptyLogState,
+  metadataKey,
+  syncArticleLogs,
+} from "../frontend/web/src/articleLogs";
+import { checkArticleIndex } from "../frontend/web/src/articleRepair";
+import { extractFeatures } from "../frontend/web/src/features";
+import { MockOracle, OracleAnswer } from "../src/mockOracle";
+
+/**
+ * Tasks operating a deployed NewsBiasFHE contract, e.g. against `npm run chain`:
+ *
+ *   npx hardhat --network localhost news:submit --file article.txt
+ *   npx hardhat --network localhost news:analyze 1
+ *   npx hardhat --network localhost news:show 1
+ *   npx hardhat --network localhost news:repair --apply
+ *   npx hardhat --network localhost news:oracle --delay 30
+ *
+ * Every task takes an optional --address and otherwise uses the hardhat-deploy deployment.
+ */
+
+async function getNewsBias(hre: HardhatRuntimeEnvironment, address?: string) {
+  const { ethers, deployments } = hre;
+  const deployment = address
+    ? { address }
+    : await deployments.get("NewsBiasFHE");
+  const [signer] = await ethers.getSigners();
+  const contract = await ethers.getContractAt(
+    "NewsBiasFHE",
+    deployment.address,
+    signer,
+  );
+  return { contract, signer, address: deployment.address };
+}
+
+async function printAnalysis(
+  hre: HardhatRuntimeEnvironment,
+  address: string | undefined,
+  articleId: number,
+) {
+  const { contract } = await getNewsBias(hre, address);
+  const article = await contract.articles(articleId);
+  if (article.articleId === 0n) {
+    throw new Error(`Article ${articleId} does not exist`);
+  }
+  const analysis = await contract.getBiasAnalysis(articleId);
+  console.log(
+    `Article ${articleId} (submitted ${new Date(Number(article.timestamp) * 1000).toISOString()})`,
+  );
+  if (!analysis.isAnalyzed) {
+    console.log("  not analyzed yet");
+    return;
+  }
+  console.log(`  bias score:  ${analysis.biasScore}`);
+  console.log(`  comparison:  ${analysis.comparisonResult}`);
+  console.log(`  outlet:      ${analysis.mediaOutlet}`);
+}
+
+task(
+  "news:submit",
+  "Extracts the features of a text file, encrypts them and submits the article",
+)
+  .addOptionalParam(
+    "address",
+    "Optionally specify the NewsBiasFHE contract address",
+  )
+  .addParam("file", "Path to the article text")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const { contract, signer, address } = await getNewsBias(
+      hre,
+      taskArguments.address,
+    );
+    const features = extractFeatures(
+      fs.readFileSync(taskArguments.file, "utf8"),
+    );
+    console.log(
+      `Features: content=${features.content} sentiment=${features.sentiment} keywords=${features.keywords} (${features.topKeywords.join(", ")})`,
+    );
+
+    const encrypted = await fhevm
+      .createEncryptedInput(address, signer.address)
+      .add32(features.content)
+      .add32(features.sentiment)
+      .add32(features.keywords)
+      .encrypt();
+
+    const tx = await contract.submitEncryptedArticle(
+      encrypted.handles[0],
+      encrypted.handles[1],
+      encrypted.handles[2],
+      encrypted.inputProof,
+    );
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    for (const log of receipt?.logs ?? []) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "ArticleSubmitted") {
+        console.log(`Submitted article ${parsed.args.articleId}`);
+      }
+    }
+  });
+
+task("news:analyze", "Requests the bias analysis of an article")
+  .addOptionalParam(
+    "address",
+    "Optionally specify the NewsBiasFHE contract address",
+  )
+  .addPositionalParam("id", "The article id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const articleId = parseInt(taskArguments.id);
+    const { contract, address } = await getNewsBias(hre, taskArguments.address);
+    const tx = await contract.requestBiasAnalysis(articleId);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    if (!fhevm.isMock) {
+      console.log(
+        "Analysis requested, the decryption oracle will call back analyzeBias",
+      );
+      return;
+    }
+    // Nothing answers on a mock node unless asked to, this request is answered right away
+    const [request] = fhevm.parseDecryptionRequestEvents(receipt?.logs);
+    await new MockOracle(hre, address).answer(request);
+    await printAnalysis(hre, taskArguments.address, articleId);
+  });
+
+task("news:show", "Prints the bias analysis of an article")
+  .addOptionalParam(
+    "address",
+    "Optionally specify the NewsBiasFHE contract address",
+  )
+  .addPositionalParam("id", "The article id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await printAnalysis(hre, taskArguments.address, parseInt(taskArguments.id));
+  });
+
+task("news:list", "Lists all submitted articles")
+  .addOptionalParam(
+    "address",
+    "Optionally specify the NewsBiasFHE contract address",
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract, address } = await getNewsBias(hre, taskArguments.address);
+    const count = Number(await contract.articleCount());
+    console.log(`NewsBiasFHE at ${address}: ${count} article(s)`);
+
+    for (let id = 1; id <= count; id++) {
+      const [article, analysis] = await Promise.all([
+        contract.articles(id),
+        contract.getBiasAnalysis(id),
+      ]);
+      const submitted = new Date(
+        Number(article.timestamp) * 1000,
+      ).toISOString();
+      const status = analysis.isAnalyzed
+        ? `${analysis.biasScore} / ${analysis.comparisonResult} / ${analysis.mediaOutlet}`
+        : "not analyzed";
+      console.log(`  #${id}  ${submitted}  ${status}`);
+    }
+  });
+
+task("news:authorize", "Authorizes an analyst account")
+  .addOptionalParam(
+    "address",
+    "Optionally specify the NewsBiasFHE contract address",
+  )
+  .addPositionalParam("analyst", "The account to authorize")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    if (!ethers.isAddress(taskArguments.analyst)) {
+      throw new Error(`Invalid analyst address: ${taskArguments.analyst}`);
+    }
+
+    const { contract } = await getNewsBias(hre, taskArguments.address);
+    const tx = await contract.authorizeAnalyst(taskArguments.analyst);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task(
+  "news:bias-count",
+  "Prints the encrypted and last decrypted article count of a bias category",
+)
+  .addOptionalParam(
+    "address",
+    "Optionally specify the NewsBiasFHE contract address",
+  )
+  .addFlag("decrypt", "Request a fresh decryption of the count first")
+  .addPositionalParam(
+    "category",
+    "HighlyBiased, ModeratelyBiased, SlightlyBiased or Neutral",
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const category: string = taskArguments.category;
+    const { contract } = await getNewsBias(hre, taskArguments.address);
+    const handle = await contract.getEncryptedBiasCount(category);
+    if (handle === ethers.ZeroHash) {
+      console.log(`No article has been classified as ${category}`);
+      return;
+    }
+    console.log(`Encrypted count: ${handle}`);
+
+    if (taskArguments.decrypt) {
+      const tx = await contract.requestBiasCountDecryption(category);
+      console.log(`Wait for tx:${tx.hash}...`);
+      await tx.wait();
+      if (!fhevm.isMock) {
+        console.log(
+          "Decryption requested, run this task again once the oracle has answered",
+        );
+        return;
+      }
+      await fhevm.awaitDecryptionOracle();
+    }
+    console.log(
+      `Last decrypted count: ${await contract.decryptedBiasCount(category)}`,
+    );
+  });
+
+task(
+  "news:repair",
+  "Finds articles without metadata and orphaned article_* keys, and re-links them",
+)
+  .addOptionalParam(
+    "address",
+    "Optionally specify the NewsBiasFHE contract address",
+  )
+  .addOptionalParam(
+    "metadata",
+    "Optionally specify the UniversalAdapter metadata store address",
+  )
+  .addOptionalParam(
+    "fromBlock",
+    "First block to scan, defaults to the NewsBiasFHE deployment block",
+  )
+  .addOptionalParam(
+    "maxDrift",
+    "Largest gap in seconds between a payload timestamp and the submission",
+    "3600",
+  )
+  .addFlag("apply", "Write the re-linked metadata instead of only reporting")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const { contract, signer } = await getNewsBias(hre, taskArguments.address);
+    const metadataAddress =
+      taskArguments.metadata ??
+      (await deployments.get("UniversalAdapter")).address;
+    const metadata = await ethers.getContractAt(
+      "UniversalAdapter",
+      metadataAddress,
+      signer,
+    );
+
+    let fromBlock = 0;
+    if (taskArguments.fromBlock !== undefined) {
+      fromBlock = parseInt(taskArguments.fromBlock);
+    } else if (!taskArguments.address) {
+      fromBlock =
+        (await deployments.get("NewsBiasFHE")).receipt?.blockNumber ?? 0;
+    }
+
+    const toBlock = await ethers.provider.getBlockNumber();
+    const state = await syncArticleLogs(
+      contract,
+      metadata,
+      emptyLogState(fromBlock),
+      toBlock,
+    );
+    console.log(
+      `Scanned blocks ${fromBlock}..${toBlock}: ${state.submissions.size} article(s), ${state.metadata.size} metadata key(s)`,
+    );
+
+    // Only the unlinked articles need their submitter, from the submission tx
+    const submitters = new Map<number, string>();
+    for (const submission of state.submissions.values()) {
+      if (state.metadata.has(metadataKey(submission.articleId))) continue;
+      const tx = await ethers.provider.getTransaction(submission.txHash);
+      if (tx) submitters.set(submission.articleId, tx.from);
+    }
+
+    const report = checkArticleIndex(
+      state,
+      submitters,
+      parseInt(taskArguments.maxDrift),
+    );
+    for (const submission of report.unlinked) {
+      console.log(
+        `  article ${submission.articleId} has no metadata (tx ${submission.txHash})`,
+      );
+    }
+    for (const orphan of report.orphaned) {
+      console.log(
+        `  ${orphan.record.key} has no article (written by ${orphan.record.sender} in tx ${orphan.record.txHash})`,
+      );
+    }
+    if (report.unlinked.length === 0 && report.orphaned.length === 0) {
+      console.log("Index and metadata are consistent");
+      return;
+    }
+
+    for (const relink of report.relinks) {
+      console.log(
+        `Re-link ${relink.orphan.record.key} -> ${metadataKey(relink.articleId)} (${relink.drift}s apart)`,
+      );
+      if (!taskArguments.apply) continue;
+      const tx = await metadata.setData(
+        metadataKey(relink.articleId),
+        relink.orphan.record.value,
+      );
+      console.log(`Wait for tx:${tx.hash}...`);
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    }
+    if (report.relinks.length === 0) {
+      console.log(
+        "No re-link found, the remaining entries need manual attention",
+      );
+    } else if (!taskArguments.apply) {
+      console.log("Run again with --apply to write the re-linked metadata");
+    }
+  });
+
+task(
+  "news:oracle",
+  "Answers the decryption requests of NewsBiasFHE on a mock fhevm node, standing in for the decryption oracle",
+)
+  .addOptionalParam(
+    "address",
+    "Optionally specify the NewsBiasFHE contract address",
+  )
+  .addOptionalParam("interval", "Seconds between two polls", "2")
+  .addOptionalParam(
+    "delay",
+    "Seconds each request is held from when it was first seen before it is answered, like the live oracle's latency",
+    "0",
+  )
+  .addFlag("once", "Answer the pending requests and exit")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    if (!fhevm.isMock) {
+      throw new Error(
+        "news:oracle only runs against a mock fhevm node, live networks have the Zama decryption oracle",
+      );
+    }
+
+    const { contract, address } = await getNewsBias(hre, taskArguments.address);
+    const interval = parseFloat(taskArguments.interval) * 1000;
+    // Requests made before the task started are seen on the first poll
+    const oracle = new MockOracle(hre, address, {
+      delayMs: taskArguments.once ? 0 : parseFloat(taskArguments.delay) * 1000,
+    });
+
+    const report = async ({ request, receipt, error }: OracleAnswer) => {
+      if (error) {
+        // e.g. the callback of a retried request reverting once the first one was answered
+        console.error(
+          `Answering decryption request ${request.requestID} failed: ${error.message}`,
+        );
+        return;
+      }
+      for (const log of receipt!.logs) {
+        if (log.address.toLowerCase() !== address.toLowerCase()) continue;
+        const parsed = contract.interface.parseLog(log);
+        if (parsed?.name === "AnalysisCompleted") {
+          await printAnalysis(hre, address, Number(parsed.args.articleId));
+        } else if (parsed?.name === "BiasCountDecrypted") {
+          console.log(
+            `Bias count of ${parsed.args.biasCategory}: ${parsed.args.count}`,
+          );
+        }
+      }
+    };
+    const poll = async () => {
+      const { seen, answers } = await oracle.poll();
+      for (const request of seen) {
+        console.log(
+          `Decryption request ${request.requestID} for ${request.handlesBytes32Hex.length} handle(s) in tx ${request.transactionHash}`,
+        );
+      }
+      for (const answer of answers) await report(answer);
+    };
+
+    if (taskArguments.once) {
+      await poll();
+      return;
+    }
+    console.log(
+      `Answering decryption requests of NewsBiasFHE at ${address}, Ctrl-C to stop`,
+    );
+    for (;;) {
+      try {
+        await poll();
+      } catch (e) {
+        // The blocks of a failed poll are scanned again by the next one
+        console.error(
+          `Polling failed: ${(e as Error).message}, retrying in ${interval / 1000}s`,
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+  });
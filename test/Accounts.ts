@@ -0,0 +1,103 @@
+import { expect } from "chai";
+import { Wallet, encryptKeystoreJsonSync } from "ethers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { deployerAccounts, selectedNetwork } from "../src/accounts";
+
+const PASSWORD = "correct horse battery staple";
+
+describe("Deployer accounts", function () {
+  const wallet = Wallet.createRandom();
+  let dir: string;
+  let keystore: string;
+  let passwordFile: string;
+
+  before(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "newsbias-accounts-"));
+    keystore = path.join(dir, "keystore.json");
+    passwordFile = path.join(dir, "password.txt");
+    // A cheap scrypt cost keeps the test fast, decryption reads it from the file
+    fs.writeFileSync(
+      keystore,
+      encryptKeystoreJsonSync(
+        { address: wallet.address, privateKey: wallet.privateKey },
+        PASSWORD,
+        { scrypt: { N: 1 << 10 } },
+      ),
+    );
+    fs.writeFileSync(passwordFile, `${PASSWORD}\nignored second line\n`);
+  });
+
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("unlocks the keystore with the password variable", function () {
+    expect(
+      deployerAccounts({
+        DEPLOYER_KEYSTORE: keystore,
+        DEPLOYER_KEYSTORE_PASSWORD: PASSWORD,
+      }),
+    ).to.deep.equal([wallet.privateKey]);
+  });
+
+  it("reads the password file when the password variable is blank", function () {
+    // As dotenv loads the DEPLOYER_KEYSTORE_PASSWORD= line of .env.example
+    expect(
+      deployerAccounts({
+        DEPLOYER_KEYSTORE: keystore,
+        DEPLOYER_KEYSTORE_PASSWORD: "",
+        DEPLOYER_KEYSTORE_PASSWORD_FILE: passwordFile,
+      }),
+    ).to.deep.equal([wallet.privateKey]);
+  });
+
+  it("warns and skips a keystore without a password", function () {
+    const warnings: string[] = [];
+    const warn = console.warn;
+    console.warn = (message: string) => warnings.push(message);
+    try {
+      expect(
+        deployerAccounts({
+          DEPLOYER_KEYSTORE: keystore,
+          DEPLOYER_KEYSTORE_PASSWORD: "",
+          DEPLOYER_KEYSTORE_PASSWORD_FILE: "",
+        }),
+      ).to.equal(undefined);
+    } finally {
+      console.warn = warn;
+    }
+    expect(warnings).to.have.length(1);
+    expect(warnings[0]).to.match(/neither DEPLOYER_KEYSTORE_PASSWORD/);
+  });
+
+  it("prefers the keystore over a private key", function () {
+    expect(
+      deployerAccounts({
+        DEPLOYER_KEYSTORE: keystore,
+        DEPLOYER_KEYSTORE_PASSWORD: PASSWORD,
+        DEPLOYER_PRIVATE_KEY: Wallet.createRandom().privateKey,
+      }),
+    ).to.deep.equal([wallet.privateKey]);
+  });
+
+  it("falls back to the private key, then to the network's accounts", function () {
+    expect(
+      deployerAccounts({ DEPLOYER_PRIVATE_KEY: wallet.privateKey }),
+    ).to.deep.equal([wallet.privateKey]);
+    expect(deployerAccounts({ DEPLOYER_KEYSTORE: "" })).to.equal(undefined);
+  });
+
+  it("takes the network of the command from --network, then HARDHAT_NETWORK", function () {
+    const argv = ["node", "hardhat", "deploy"];
+    expect(selectedNetwork([...argv, "--network", "sepolia"], {})).to.equal(
+      "sepolia",
+    );
+    expect(selectedNetwork(argv, { HARDHAT_NETWORK: "localhost" })).to.equal(
+      "localhost",
+    );
+    expect(selectedNetwork(argv, {})).to.equal("hardhat");
+  });
+});
@@ -0,0 +1,182 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+import {
+  checkArticleIndex,
+  DEFAULT_MAX_DRIFT_SECONDS,
+} from "../frontend/web/src/articleRepair";
+import {
+  ArticleLogState,
+  emptyLogState,
+  metadataKey,
+} from "../frontend/web/src/articleLogs";
+
+const PUBLISHER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const OTHER = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+const SUBMITTED_AT = 1_700_000_000;
+
+const position = { blockNumber: 1, logIndex: 0, txHash: ethers.ZeroHash };
+
+const payload = (timestamp: number, source = "Example Times") =>
+  ethers.hexlify(
+    ethers.toUtf8Bytes(
+      JSON.stringify({
+        version: 1,
+        source,
+        timestamp,
+        keywords: [],
+        featureModelVersion: 1,
+        scoringModelVersion: 1,
+      }),
+    ),
+  );
+
+function submit(state: ArticleLogState, articleId: number, timestamp: number) {
+  state.submissions.set(articleId, { ...position, articleId, timestamp });
+}
+
+function store(
+  state: ArticleLogState,
+  articleId: number,
+  value: string,
+  sender = PUBLISHER,
+) {
+  const key = metadataKey(articleId);
+  state.metadata.set(key, { ...position, key, value, sender });
+}
+
+describe("Article index repair", function () {
+  let state: ArticleLogState;
+  let submitters: Map<number, string>;
+
+  beforeEach(function () {
+    state = emptyLogState(0);
+    submitters = new Map();
+  });
+
+  it("re-links an orphan to the same sender's article", function () {
+    submit(state, 1, SUBMITTED_AT);
+    submitters.set(1, PUBLISHER);
+    // Metadata written under the id the next submission would have had
+    store(state, 2, payload(SUBMITTED_AT - 5));
+
+    const report = checkArticleIndex(state, submitters);
+    expect(report.unlinked.map((s) => s.articleId)).to.deep.equal([1]);
+    expect(report.orphaned.map((o) => o.articleId)).to.deep.equal([2]);
+    expect(report.relinks).to.have.length(1);
+    expect(report.relinks[0]).to.deep.include({ articleId: 1, drift: 5 });
+    expect(report.relinks[0].orphan.record.key).to.equal("article_2");
+  });
+
+  it("compares senders case-insensitively", function () {
+    submit(state, 1, SUBMITTED_AT);
+    submitters.set(1, PUBLISHER.toLowerCase());
+    store(state, 2, payload(SUBMITTED_AT));
+
+    expect(checkArticleIndex(state, submitters).relinks).to.have.length(1);
+  });
+
+  it("does not re-link beyond the drift limit", function () {
+    submit(state, 1, SUBMITTED_AT);
+    submitters.set(1, PUBLISHER);
+    store(state, 2, payload(SUBMITTED_AT + DEFAULT_MAX_DRIFT_SECONDS + 1));
+
+    const report = checkArticleIndex(state, submitters);
+    expect(report.orphaned).to.have.length(1);
+    expect(report.relinks).to.deep.equal([]);
+    // A wider limit accepts the same pair
+    expect(
+      checkArticleIndex(state, submitters, DEFAULT_MAX_DRIFT_SECONDS + 1)
+        .relinks,
+    ).to.have.length(1);
+  });
+
+  it("does not re-link payloads written by another account", function () {
+    submit(state, 1, SUBMITTED_AT);
+    submitters.set(1, PUBLISHER);
+    store(state, 2, payload(SUBMITTED_AT), OTHER);
+
+    const report = checkArticleIndex(state, submitters);
+    expect(report.orphaned).to.have.length(1);
+    expect(report.relinks).to.deep.equal([]);
+  });
+
+  it("does not re-link articles with an unknown submitter", function () {
+    submit(state, 1, SUBMITTED_AT);
+    store(state, 2, payload(SUBMITTED_AT));
+
+    expect(checkArticleIndex(state, submitters).relinks).to.deep.equal([]);
+  });
+
+  it("skips orphans whose payload was already copied to an article", function () {
+    submit(state, 1, SUBMITTED_AT);
+    submit(state, 3, SUBMITTED_AT + 10);
+    submitters.set(1, PUBLISHER);
+    submitters.set(3, PUBLISHER);
+    const value = payload(SUBMITTED_AT);
+    store(state, 1, value);
+    store(state, 2, value);
+
+    const report = checkArticleIndex(state, submitters);
+    expect(report.unlinked.map((s) => s.articleId)).to.deep.equal([3]);
+    expect(report.orphaned).to.deep.equal([]);
+    expect(report.relinks).to.deep.equal([]);
+  });
+
+  it("skips orphans whose payload is invalid", function () {
+    submit(state, 1, SUBMITTED_AT);
+    submitters.set(1, PUBLISHER);
+    store(state, 2, ethers.hexlify(ethers.toUtf8Bytes("{not json")));
+
+    const report = checkArticleIndex(state, submitters);
+    expect(report.orphaned).to.have.length(1);
+    expect(report.relinks).to.deep.equal([]);
+  });
+
+  it("does not count legacy keys as orphans", function () {
+    submit(state, 1, SUBMITTED_AT);
+    submitters.set(1, PUBLISHER);
+    const key = "article_1700000000000-k3x9q2a";
+    state.metadata.set(key, {
+      ...position,
+      key,
+      value: payload(SUBMITTED_AT),
+      sender: PUBLISHER,
+    });
+
+    const report = checkArticleIndex(state, submitters);
+    expect(report.orphaned).to.deep.equal([]);
+    expect(report.relinks).to.deep.equal([]);
+  });
+
+  it("gives a contested article to the closest orphan only", function () {
+    submit(state, 1, SUBMITTED_AT);
+    submitters.set(1, PUBLISHER);
+    store(state, 5, payload(SUBMITTED_AT + 120, "Far"));
+    store(state, 6, payload(SUBMITTED_AT - 30, "Near"));
+
+    const report = checkArticleIndex(state, submitters);
+    expect(report.orphaned.map((o) => o.articleId)).to.deep.equal([5, 6]);
+    expect(report.relinks).to.have.length(1);
+    expect(report.relinks[0].articleId).to.equal(1);
+    expect(report.relinks[0].orphan.record.key).to.equal("article_6");
+  });
+
+  it("matches several orphans one-to-one, closest timestamps first", function () {
+    submit(state, 1, SUBMITTED_AT);
+    submit(state, 2, SUBMITTED_AT + 100);
+    submitters.set(1, PUBLISHER);
+    submitters.set(2, PUBLISHER);
+    // Both orphans are within the limit of both articles
+    store(state, 7, payload(SUBMITTED_AT + 90));
+    store(state, 8, payload(SUBMITTED_AT + 20));
+
+    const relinks = checkArticleIndex(state, submitters).relinks;
+    expect(
+      relinks.map((r) => [r.articleId, r.orphan.record.key, r.drift]),
+    ).to.deep.equal([
+      [1, "article_8", 20],
+      [2, "article_7", 10],
+    ]);
+  });
+});
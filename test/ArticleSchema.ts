@@ -0,0 +1,189 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import hre from "hardhat";
+
+import {
+  NewsBiasFHE,
+  NewsBiasFHE__factory,
+  UniversalAdapter,
+  UniversalAdapter__factory,
+} from "../types";
+
+import {
+  emptyLogState,
+  joinArticles,
+  joinLegacyArticles,
+  metadataKey,
+  syncArticleLogs,
+} from "../frontend/web/src/articleLogs";
+import {
+  ARTICLE_SCHEMA_VERSION,
+  ArticleSchemaError,
+  parseArticlePayload,
+  upgradeArticlePayload,
+} from "../frontend/web/src/articleSchema";
+
+const SENDER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+const encode = (payload: unknown) =>
+  ethers.hexlify(ethers.toUtf8Bytes(JSON.stringify(payload)));
+
+const currentPayload = {
+  version: ARTICLE_SCHEMA_VERSION,
+  source: "Example Times",
+  timestamp: 1_700_000_000,
+  keywords: ["election", "senate"],
+  featureModelVersion: 1,
+  scoringModelVersion: 1,
+};
+
+describe("Article metadata schema", function () {
+  it("accepts a current payload as is", function () {
+    expect(parseArticlePayload(encode(currentPayload))).to.deep.equal({
+      ok: true,
+      record: currentPayload,
+    });
+  });
+
+  it("upgrades an unversioned v0 payload to v1", function () {
+    const parsed = parseArticlePayload(
+      encode({ source: "Example Times", timestamp: 1_700_000_000 }),
+    );
+    expect(parsed).to.deep.equal({
+      ok: true,
+      migratedFrom: 0,
+      record: {
+        version: 1,
+        source: "Example Times",
+        timestamp: 1_700_000_000,
+        keywords: [],
+        featureModelVersion: 0,
+        scoringModelVersion: 0,
+      },
+    });
+  });
+
+  it("rejects payloads from a newer version", function () {
+    const newer = { ...currentPayload, version: ARTICLE_SCHEMA_VERSION + 1 };
+    expect(() => upgradeArticlePayload(newer))
+      .to.throw(ArticleSchemaError)
+      .with.property("message")
+      .that.matches(/newer than this client/);
+    expect(parseArticlePayload(encode(newer))).to.deep.include({ ok: false });
+  });
+
+  it("reports bytes that are not UTF-8 JSON instead of throwing", function () {
+    for (const bytes of [
+      ethers.hexlify(ethers.toUtf8Bytes("{not json")),
+      "0xff",
+    ]) {
+      const parsed = parseArticlePayload(bytes);
+      expect(parsed.ok).to.equal(false);
+      expect(parsed.ok === false && parsed.error).to.match(/^not UTF-8 JSON/);
+    }
+  });
+
+  it("rejects missing and out-of-range fields", function () {
+    const cases: [Record<string, unknown>, RegExp][] = [
+      [[] as unknown as Record<string, unknown>, /not a JSON object/],
+      [{ ...currentPayload, version: -1 }, /invalid version/],
+      [{ ...currentPayload, source: undefined }, /source must be/],
+      [{ ...currentPayload, source: "  " }, /source must be/],
+      [{ ...currentPayload, source: "x".repeat(201) }, /source is longer/],
+      [{ ...currentPayload, timestamp: undefined }, /timestamp must be/],
+      [{ ...currentPayload, timestamp: -1 }, /timestamp must be/],
+      [{ ...currentPayload, timestamp: 1.5 }, /timestamp must be/],
+      [{ ...currentPayload, keywords: "election" }, /keywords must be/],
+      [{ ...currentPayload, keywords: Array(21).fill("a") }, /keywords exceed/],
+      [{ ...currentPayload, featureModelVersion: "1" }, /model versions/],
+    ];
+    for (const [payload, error] of cases) {
+      const parsed = parseArticlePayload(encode(payload));
+      expect(parsed.ok, JSON.stringify(payload)).to.equal(false);
+      expect(parsed.ok === false && parsed.error).to.match(error);
+    }
+  });
+
+  it("keeps articles with rejected metadata for the diagnostics", function () {
+    const state = emptyLogState(0);
+    const position = { blockNumber: 1, logIndex: 0, txHash: ethers.ZeroHash };
+    for (const articleId of [1, 2, 3]) {
+      state.submissions.set(articleId, {
+        ...position,
+        articleId,
+        timestamp: 1_700_000_000 + articleId,
+      });
+    }
+    const values: Record<number, string> = {
+      1: encode(currentPayload),
+      2: encode({ source: "Example Times", timestamp: 1_700_000_000 }),
+      3: encode({ ...currentPayload, timestamp: -1 }),
+    };
+    for (const [articleId, value] of Object.entries(values)) {
+      const key = metadataKey(Number(articleId));
+      state.metadata.set(key, { ...position, key, value, sender: SENDER });
+    }
+
+    const articles = new Map(joinArticles(state).map((a) => [a.id, a]));
+    expect(articles.size).to.equal(3);
+    expect(articles.get(1)!.metadata).to.deep.equal(currentPayload);
+    expect(articles.get(2)!.migratedFrom).to.equal(0);
+    const rejected = articles.get(3)!;
+    expect(rejected.metadata).to.equal(undefined);
+    expect(rejected.metadataIssue).to.match(/timestamp must be/);
+    expect(rejected.metadataRecord!.sender).to.equal(SENDER);
+  });
+
+  it("reads payloads the first dashboard stored under legacy keys", async function () {
+    const [publisher] = await hre.ethers.getSigners();
+    const newsBias = (await (
+      (await hre.ethers.getContractFactory(
+        "NewsBiasFHE",
+      )) as NewsBiasFHE__factory
+    ).deploy()) as NewsBiasFHE;
+    const metadata = (await (
+      (await hre.ethers.getContractFactory(
+        "UniversalAdapter",
+      )) as UniversalAdapter__factory
+    ).deploy()) as UniversalAdapter;
+    const fromBlock = await hre.ethers.provider.getBlockNumber();
+
+    // As written by the first dashboard's submit and analyze steps
+    const key = "article_1700000000000-k3x9q2a";
+    const legacy = {
+      content: `FHE-${Buffer.from("Article text").toString("base64")}`,
+      source: "Example Times",
+      timestamp: 1_700_000_000,
+      keywords: ["election"],
+      biasScore: 42,
+    };
+    await (
+      await metadata.setData(key, ethers.toUtf8Bytes(JSON.stringify(legacy)))
+    ).wait();
+    await (
+      await metadata.setData("article_keys", ethers.toUtf8Bytes("[]"))
+    ).wait();
+
+    const state = await syncArticleLogs(
+      newsBias,
+      metadata,
+      emptyLogState(fromBlock),
+      await hre.ethers.provider.getBlockNumber(),
+    );
+    expect([...state.metadata.keys()]).to.deep.equal([key]);
+    expect(joinArticles(state)).to.deep.equal([]);
+
+    const [article] = joinLegacyArticles(state);
+    expect(article.key).to.equal(key);
+    expect(article.metadataRecord.sender).to.equal(publisher.address);
+    expect(article.migratedFrom).to.equal(0);
+    expect(article.metadata).to.deep.equal({
+      version: 1,
+      source: "Example Times",
+      timestamp: 1_700_000_000,
+      keywords: ["election"],
+      featureModelVersion: 0,
+      scoringModelVersion: 0,
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+import {
+  calculateBiasScore,
+  compareWithBaseline,
+  identifyMediaOutlet,
+} from "../frontend/web/src/scoring";
+import { BiasScoringHarness, BiasScoringHarness__factory } from "../types";
+
+const UINT32_MAX = 0xffffffff;
+const FEATURE_MAX = 100;
+
+// Values around the thresholds and the uint32 overflow limits of (2 * content + 3 * sentiment)
+const EDGE_VALUES = [
+  0,
+  1,
+  49,
+  50,
+  51,
+  101,
+  1_000_000,
+  Math.floor(UINT32_MAX / 5),
+  Math.floor(UINT32_MAX / 3),
+  Math.floor(UINT32_MAX / 3) + 1,
+  Math.floor(UINT32_MAX / 2),
+  Math.floor(UINT32_MAX / 2) + 1,
+  UINT32_MAX,
+];
+
+describe("BiasScoring parity", function () {
+  let harness: BiasScoringHarness;
+
+  before(async function () {
+    const factory = (await ethers.getContractFactory(
+      "BiasScoringHarness",
+    )) as BiasScoringHarness__factory;
+    harness = (await factory.deploy()) as BiasScoringHarness;
+    await harness.waitForDeployment();
+  });
+
+  it("classifies every feature pair in the 0-100 range like the contract", async function () {
+    for (let content = 0; content <= FEATURE_MAX; content++) {
+      const [biasScores, comparisons] = await harness.scoreRow(
+        content,
+        FEATURE_MAX,
+      );
+      for (let sentiment = 0; sentiment <= FEATURE_MAX; sentiment++) {
+        expect(
+          biasScores[sentiment],
+          `bias(${content}, ${sentiment})`,
+        ).to.equal(calculateBiasScore(content, sentiment));
+        expect(
+          comparisons[sentiment],
+          `baseline(${content}, ${sentiment})`,
+        ).to.equal(compareWithBaseline(content, sentiment));
+      }
+    }
+  });
+
+  it("agrees on uint32 edge values, including overflow reverts", async function () {
+    for (const content of EDGE_VALUES) {
+      for (const sentiment of EDGE_VALUES) {
+        let expected: string | undefined;
+        try {
+          expected = calculateBiasScore(content, sentiment);
+        } catch (e) {
+          expect(e).to.be.instanceOf(RangeError);
+        }
+
+        if (expected === undefined) {
+          await expect(
+            harness.calculateBiasScore(content, sentiment),
+          ).to.be.revertedWithPanic(0x11);
+        } else {
+          expect(await harness.calculateBiasScore(content, sentiment)).to.equal(
+            expected,
+          );
+        }
+        expect(await harness.compareWithBaseline(content, sentiment)).to.equal(
+          compareWithBaseline(content, sentiment),
+        );
+      }
+    }
+  });
+
+  it("maps keyword fingerprints to the same media outlet", async function () {
+    const fingerprints = [...Array(10).keys(), ...EDGE_VALUES];
+    for (const keywords of fingerprints) {
+      expect(await harness.identifyMediaOutlet(keywords)).to.equal(
+        identifyMediaOutlet(keywords),
+      );
+    }
+  });
+});
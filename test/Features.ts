@@ -0,0 +1,103 @@
+import { expect } from "chai";
+
+import {
+  extractFeatures,
+  keywordFingerprint,
+  loadedLanguageScore,
+  sentimentScore,
+  tokenize,
+} from "../frontend/web/src/features";
+
+// Fixed texts with the values the dashboard computes for them; the same
+// module runs here under Node, so any drift between runtimes shows up as a diff
+describe("Feature extraction", function () {
+  it("extracts the expected features from a neutral report", function () {
+    expect(extractFeatures("Officials met on Tuesday.")).to.deep.equal({
+      content: 0,
+      sentiment: 50,
+      keywords: 0xb5394cb0,
+      topKeywords: ["met", "officials", "tuesday"],
+      tokenCount: 4,
+    });
+  });
+
+  it("scores positive wording above the baseline", function () {
+    const features = extractFeatures(
+      "The economy shows strong growth and progress.",
+    );
+    // Mean polarity 2 squashes to 50 + 50 * 2 / 3
+    expect(features.sentiment).to.equal(83);
+    expect(features.content).to.equal(0);
+    expect(features.topKeywords).to.deep.equal([
+      "economy",
+      "growth",
+      "progress",
+      "shows",
+      "strong",
+    ]);
+    expect(features.keywords).to.equal(0x9e23bc36);
+    expect(features.tokenCount).to.equal(7);
+  });
+
+  it("flips negated words and saturates loaded language", function () {
+    const features = extractFeatures(
+      "OUTRAGEOUS! The corrupt regime is not good!",
+    );
+    // corrupt -3 and negated good -2: mean -2.5 squashes to 50 - 50 * 2.5 / 3.5
+    expect(features.sentiment).to.equal(14);
+    // Three loaded terms, two exclamation marks and a shouted word over 7 tokens
+    expect(features.content).to.equal(100);
+  });
+
+  it("keeps both scores within 0-100", function () {
+    const texts = [
+      "",
+      "!!!!!!!!!!",
+      "terrible terrible terrible worst worst disaster",
+      "amazing amazing amazing best victory love",
+      "UTTERLY ABSURD SHOCKING DISGRACEFUL PROPAGANDA!!!",
+      "not terrible not worst not disaster",
+    ];
+    for (const text of texts) {
+      const tokens = tokenize(text);
+      const content = loadedLanguageScore(text, tokens);
+      const sentiment = sentimentScore(tokens);
+      expect(content, text).to.be.within(0, 100);
+      expect(sentiment, text).to.be.within(0, 100);
+      expect(Number.isInteger(content) && Number.isInteger(sentiment), text).to
+        .be.true;
+    }
+  });
+
+  it("falls back to neutral features for text without words", function () {
+    expect(extractFeatures("")).to.deep.equal({
+      content: 0,
+      sentiment: 50,
+      keywords: 0x811c9dc5,
+      topKeywords: [],
+      tokenCount: 0,
+    });
+  });
+
+  it("fingerprints keywords with 32-bit FNV-1a, independent of order", function () {
+    // Reference FNV-1a vectors
+    expect(keywordFingerprint(["a"])).to.equal(0xe40c292c);
+    expect(keywordFingerprint(["foobar"])).to.equal(0xbf9cf968);
+    expect(keywordFingerprint(["tuesday", "met", "officials"])).to.equal(
+      keywordFingerprint(["met", "officials", "tuesday"]),
+    );
+    expect(keywordFingerprint(["economy", "growth"])).to.not.equal(
+      keywordFingerprint(["economy", "growths"]),
+    );
+  });
+
+  it("normalizes case, width and possessives before counting", function () {
+    expect(tokenize("Ｔｈｅ Senate's VOTE, so-called reform")).to.deep.equal([
+      "the",
+      "senate",
+      "vote",
+      "so-called",
+      "reform",
+    ]);
+  });
+});
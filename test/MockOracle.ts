@@ -0,0 +1,130 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import hre, { ethers, fhevm, network } from "hardhat";
+
+import { NewsBiasFHE, NewsBiasFHE__factory } from "../types";
+
+import { scoreFeatures } from "../frontend/web/src/scoring";
+import { MockOracle } from "../src/mockOracle";
+
+const HIGHLY_BIASED = { content: 95, sentiment: 90, keywords: 12 };
+const NEUTRAL = { content: 10, sentiment: 40, keywords: 7 };
+
+describe("MockOracle", function () {
+  let deployer: HardhatEthersSigner;
+  let contract: NewsBiasFHE;
+  let contractAddress: string;
+  let snapshot: string;
+
+  async function submit(features: typeof NEUTRAL) {
+    const encrypted = await fhevm
+      .createEncryptedInput(contractAddress, deployer.address)
+      .add32(features.content)
+      .add32(features.sentiment)
+      .add32(features.keywords)
+      .encrypt();
+    await (
+      await contract.submitEncryptedArticle(
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.handles[2],
+        encrypted.inputProof,
+      )
+    ).wait();
+  }
+
+  async function request(articleId: number) {
+    await (await contract.requestBiasAnalysis(articleId)).wait();
+  }
+
+  const analyzed = async (articleId: number) =>
+    (await contract.getBiasAnalysis(articleId)).isAnalyzed;
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      console.warn(
+        `This hardhat test suite can only run in the fhevm mock environment`,
+      );
+      this.skip();
+    }
+    [deployer] = await ethers.getSigners();
+    // The embedded oracle of the other suites would answer these requests a second time
+    snapshot = await network.provider.send("evm_snapshot");
+  });
+
+  after(async function () {
+    if (snapshot) await network.provider.send("evm_revert", [snapshot]);
+  });
+
+  beforeEach(async function () {
+    const factory = (await ethers.getContractFactory(
+      "NewsBiasFHE",
+    )) as NewsBiasFHE__factory;
+    contract = (await factory.deploy()) as NewsBiasFHE;
+    await contract.waitForDeployment();
+    contractAddress = await contract.getAddress();
+  });
+
+  it("answers a submitted article's analysis request with AnalysisCompleted", async function () {
+    await submit(HIGHLY_BIASED);
+    await request(1);
+
+    const oracle = new MockOracle(hre, contractAddress);
+    const { seen, answers } = await oracle.poll();
+    expect(seen.map((r) => r.contractCallerAddress)).to.deep.equal([
+      contractAddress,
+    ]);
+    expect(answers).to.have.length(1);
+    expect(answers[0].error).to.equal(undefined);
+
+    const completed = answers[0]
+      .receipt!.logs.map((log) => contract.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "AnalysisCompleted");
+    expect(completed!.args.articleId).to.equal(1n);
+
+    const expected = scoreFeatures(HIGHLY_BIASED);
+    const analysis = await contract.getBiasAnalysis(1);
+    expect(analysis.isAnalyzed).to.equal(true);
+    expect(analysis.biasScore).to.equal(expected.biasScore);
+    expect(analysis.comparisonResult).to.equal(expected.comparisonResult);
+    expect(analysis.mediaOutlet).to.equal(expected.mediaOutlet);
+
+    // Answered requests are not answered again
+    expect(await oracle.poll()).to.deep.equal({ seen: [], answers: [] });
+  });
+
+  it("holds each request for the delay from when it was first seen", async function () {
+    let now = 0;
+    const oracle = new MockOracle(hre, contractAddress, {
+      delayMs: 10_000,
+      now: () => now,
+    });
+    await submit(NEUTRAL);
+    await submit(HIGHLY_BIASED);
+
+    await request(1);
+    expect((await oracle.poll()).answers).to.deep.equal([]);
+    now = 6_000;
+    await request(2);
+    expect((await oracle.poll()).answers).to.deep.equal([]);
+
+    now = 10_000;
+    expect((await oracle.poll()).answers).to.have.length(1);
+    expect([await analyzed(1), await analyzed(2)]).to.deep.equal([true, false]);
+
+    now = 16_000;
+    expect((await oracle.poll()).answers).to.have.length(1);
+    expect(await analyzed(2)).to.equal(true);
+  });
+
+  it("skips requests fulfilled before it started", async function () {
+    await submit(NEUTRAL);
+    await request(1);
+    await new MockOracle(hre, contractAddress).poll();
+
+    expect(await new MockOracle(hre, contractAddress).poll()).to.deep.equal({
+      seen: [],
+      answers: [],
+    });
+  });
+});
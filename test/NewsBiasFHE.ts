@@ -0,0 +1,400 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import { NewsBiasFHE, NewsBiasFHE__factory } from "../types";
+
+import { PreflightError, sendPreflighted } from "../frontend/web/src/preflight";
+import { scoreFeatures } from "../frontend/web/src/scoring";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+type Features = { content: number; sentiment: number; keywords: number };
+
+const NEUTRAL: Features = { content: 10, sentiment: 40, keywords: 7 };
+const HIGHLY_BIASED: Features = { content: 95, sentiment: 90, keywords: 12 };
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "NewsBiasFHE",
+  )) as NewsBiasFHE__factory;
+  const contract = (await factory.deploy()) as NewsBiasFHE;
+  await contract.waitForDeployment();
+  return { contract, contractAddress: await contract.getAddress() };
+}
+
+describe("NewsBiasFHE", function () {
+  let signers: Signers;
+  let contract: NewsBiasFHE;
+  let contractAddress: string;
+
+  async function encryptFeatures(
+    signer: HardhatEthersSigner,
+    features: Features,
+  ): Promise<[Uint8Array, Uint8Array, Uint8Array, Uint8Array]> {
+    const encrypted = await fhevm
+      .createEncryptedInput(contractAddress, signer.address)
+      .add32(features.content)
+      .add32(features.sentiment)
+      .add32(features.keywords)
+      .encrypt();
+    return [
+      encrypted.handles[0],
+      encrypted.handles[1],
+      encrypted.handles[2],
+      encrypted.inputProof,
+    ];
+  }
+
+  async function submit(signer: HardhatEthersSigner, features: Features) {
+    return contract
+      .connect(signer)
+      .submitEncryptedArticle(...(await encryptFeatures(signer, features)));
+  }
+
+  async function analyze(articleId: number) {
+    const tx = await contract
+      .connect(signers.deployer)
+      .requestBiasAnalysis(articleId);
+    await tx.wait();
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(
+        `This hardhat test suite can only run in the fhevm mock environment`,
+      );
+      this.skip();
+    }
+    ({ contract, contractAddress } = await deployFixture());
+  });
+
+  describe("analyst authorization", function () {
+    it("authorizes the deployer", async function () {
+      await expect(submit(signers.deployer, NEUTRAL)).to.emit(
+        contract,
+        "ArticleSubmitted",
+      );
+    });
+
+    it("rejects submissions from unauthorized accounts", async function () {
+      await expect(submit(signers.alice, NEUTRAL)).to.be.revertedWith(
+        "Unauthorized analyst",
+      );
+    });
+
+    it("lets an analyst authorize another account", async function () {
+      expect(await contract.authorizedAnalysts(signers.alice.address)).to.equal(
+        false,
+      );
+      await (
+        await contract
+          .connect(signers.deployer)
+          .authorizeAnalyst(signers.alice.address)
+      ).wait();
+      expect(await contract.authorizedAnalysts(signers.alice.address)).to.equal(
+        true,
+      );
+      await expect(submit(signers.alice, NEUTRAL)).to.emit(
+        contract,
+        "ArticleSubmitted",
+      );
+    });
+
+    it("does not let unauthorized accounts authorize others", async function () {
+      await expect(
+        contract.connect(signers.alice).authorizeAnalyst(signers.bob.address),
+      ).to.be.revertedWith("Unauthorized analyst");
+    });
+
+    it("restricts analysis requests to analysts", async function () {
+      await (await submit(signers.deployer, NEUTRAL)).wait();
+      await expect(
+        contract.connect(signers.alice).requestBiasAnalysis(1),
+      ).to.be.revertedWith("Unauthorized analyst");
+    });
+  });
+
+  describe("preflight", function () {
+    async function preflightSubmit(
+      signer: HardhatEthersSigner,
+      inputs: [Uint8Array, Uint8Array, Uint8Array, Uint8Array],
+    ) {
+      const connected = contract.connect(signer);
+      return sendPreflighted(
+        connected,
+        connected.submitEncryptedArticle,
+        inputs,
+        "Submit article",
+      );
+    }
+
+    it("reports an unauthorized submission before sending it", async function () {
+      const nonce = await signers.alice.getNonce();
+      const error = await preflightSubmit(
+        signers.alice,
+        await encryptFeatures(signers.alice, NEUTRAL),
+      ).catch((e) => e);
+
+      expect(error).to.be.instanceOf(PreflightError);
+      expect(error.revert.name).to.equal("Error");
+      expect(error.message).to.match(/not an authorized analyst/);
+      // Nothing was sent
+      expect(await signers.alice.getNonce()).to.equal(nonce);
+    });
+
+    it("reports inputs encrypted for another account", async function () {
+      const error = await preflightSubmit(
+        signers.deployer,
+        await encryptFeatures(signers.alice, NEUTRAL),
+      ).catch((e) => e);
+
+      expect(error).to.be.instanceOf(PreflightError);
+      // The input proof binds the handles to the account they were encrypted for
+      expect(error.revert.name).to.equal("InvalidSigner");
+    });
+
+    it("sends valid transactions with a gas margin", async function () {
+      const tx = await preflightSubmit(
+        signers.deployer,
+        await encryptFeatures(signers.deployer, NEUTRAL),
+      );
+      const receipt = await tx.wait();
+      expect(receipt!.status).to.equal(1);
+      expect(tx.gasLimit > receipt!.gasUsed).to.equal(true);
+      expect(await contract.articleCount()).to.equal(1);
+    });
+  });
+
+  describe("article submission", function () {
+    it("assigns sequential ids and records the block timestamp", async function () {
+      expect(await contract.articleCount()).to.equal(0);
+
+      const receipt = await (await submit(signers.deployer, NEUTRAL)).wait();
+      const block = await ethers.provider.getBlock(receipt!.blockNumber);
+      await expect(submit(signers.deployer, HIGHLY_BIASED)).to.emit(
+        contract,
+        "ArticleSubmitted",
+      );
+
+      expect(await contract.articleCount()).to.equal(2);
+      const article = await contract.articles(1);
+      expect(article.articleId).to.equal(1);
+      expect(article.timestamp).to.equal(block!.timestamp);
+      expect((await contract.articles(2)).articleId).to.equal(2);
+    });
+
+    it("stores the encrypted features readable by the submitter", async function () {
+      await (await submit(signers.deployer, HIGHLY_BIASED)).wait();
+      const article = await contract.articles(1);
+
+      const decrypt = (handle: string) =>
+        fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          handle,
+          contractAddress,
+          signers.deployer,
+        );
+      expect(await decrypt(article.encryptedContent)).to.equal(
+        HIGHLY_BIASED.content,
+      );
+      expect(await decrypt(article.encryptedSentiment)).to.equal(
+        HIGHLY_BIASED.sentiment,
+      );
+      expect(await decrypt(article.encryptedKeywords)).to.equal(
+        HIGHLY_BIASED.keywords,
+      );
+    });
+
+    it("starts with an empty analysis", async function () {
+      await (await submit(signers.deployer, NEUTRAL)).wait();
+      const analysis = await contract.getBiasAnalysis(1);
+      expect(analysis.biasScore).to.equal("");
+      expect(analysis.isAnalyzed).to.equal(false);
+    });
+  });
+
+  describe("bias analysis", function () {
+    it("fills in the analysis through the decryption oracle callback", async function () {
+      await (await submit(signers.deployer, HIGHLY_BIASED)).wait();
+
+      await expect(contract.requestBiasAnalysis(1))
+        .to.emit(contract, "AnalysisRequested")
+        .withArgs(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const expected = scoreFeatures(HIGHLY_BIASED);
+      const analysis = await contract.getBiasAnalysis(1);
+      expect(analysis.isAnalyzed).to.equal(true);
+      expect(analysis.biasScore).to.equal(expected.biasScore);
+      expect(analysis.comparisonResult).to.equal(expected.comparisonResult);
+      expect(analysis.mediaOutlet).to.equal(expected.mediaOutlet);
+    });
+
+    it("emits AnalysisCompleted from the callback", async function () {
+      await (await submit(signers.deployer, NEUTRAL)).wait();
+      await (await contract.requestBiasAnalysis(1)).wait();
+
+      const fromBlock = await ethers.provider.getBlockNumber();
+      await fhevm.awaitDecryptionOracle();
+      const events = await contract.queryFilter(
+        contract.filters.AnalysisCompleted(),
+        fromBlock,
+      );
+      expect(events).to.have.lengthOf(1);
+    });
+
+    it("rejects a second analysis of the same article", async function () {
+      await (await submit(signers.deployer, NEUTRAL)).wait();
+      await analyze(1);
+
+      await expect(contract.requestBiasAnalysis(1)).to.be.revertedWith(
+        "Analysis already completed",
+      );
+    });
+
+    it("rejects callbacks for unknown requests", async function () {
+      await expect(contract.analyzeBias(42, "0x", "0x")).to.be.revertedWith(
+        "Invalid request",
+      );
+    });
+  });
+
+  describe("encrypted bias counts", function () {
+    const decryptCount = async (category: string) =>
+      fhevm.debugger.decryptEuint(
+        FhevmType.euint32,
+        await contract.getEncryptedBiasCount(category),
+      );
+
+    it("counts analyses per bias category", async function () {
+      await (await submit(signers.deployer, HIGHLY_BIASED)).wait();
+      await (await submit(signers.deployer, HIGHLY_BIASED)).wait();
+      await (await submit(signers.deployer, NEUTRAL)).wait();
+
+      await analyze(1);
+      expect(await decryptCount("HighlyBiased")).to.equal(1);
+
+      await analyze(2);
+      await analyze(3);
+      expect(await decryptCount("HighlyBiased")).to.equal(2);
+      expect(await decryptCount("Neutral")).to.equal(1);
+      expect(await contract.getEncryptedBiasCount("SlightlyBiased")).to.equal(
+        ethers.ZeroHash,
+      );
+    });
+
+    it("lets analysts grant themselves each count to user-decrypt it", async function () {
+      const userDecryptCount = async (signer: HardhatEthersSigner) =>
+        fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          await contract.getEncryptedBiasCount("HighlyBiased"),
+          contractAddress,
+          signer,
+        );
+
+      await (await submit(signers.deployer, HIGHLY_BIASED)).wait();
+      await analyze(1);
+      await (await contract.authorizeAnalyst(signers.alice.address)).wait();
+      // Nobody is granted a count until they ask for it
+      await expect(userDecryptCount(signers.alice)).to.be.rejected;
+
+      await (
+        await contract.connect(signers.alice).allowBiasCount("HighlyBiased")
+      ).wait();
+      expect(await userDecryptCount(signers.alice)).to.equal(1);
+
+      // The next analysis makes a new handle, granted again
+      await (await submit(signers.deployer, HIGHLY_BIASED)).wait();
+      await analyze(2);
+      await expect(userDecryptCount(signers.alice)).to.be.rejected;
+      await (
+        await contract.connect(signers.alice).allowBiasCount("HighlyBiased")
+      ).wait();
+      expect(await userDecryptCount(signers.alice)).to.equal(2);
+    });
+
+    it("grants several counts in one transaction", async function () {
+      await (await submit(signers.deployer, HIGHLY_BIASED)).wait();
+      await (await submit(signers.deployer, NEUTRAL)).wait();
+      await analyze(1);
+      await analyze(2);
+      await (await contract.authorizeAnalyst(signers.alice.address)).wait();
+
+      await (
+        await contract
+          .connect(signers.alice)
+          .allowBiasCounts(["HighlyBiased", "Neutral"])
+      ).wait();
+      for (const category of ["HighlyBiased", "Neutral"]) {
+        expect(
+          await fhevm.userDecryptEuint(
+            FhevmType.euint32,
+            await contract.getEncryptedBiasCount(category),
+            contractAddress,
+            signers.alice,
+          ),
+        ).to.equal(1);
+      }
+
+      await expect(
+        contract.connect(signers.bob).allowBiasCounts(["Neutral"]),
+      ).to.be.revertedWith("Unauthorized analyst");
+      // One category without analyses fails the whole batch
+      await expect(
+        contract.allowBiasCounts(["Neutral", "SlightlyBiased"]),
+      ).to.be.revertedWith("Category not found");
+    });
+
+    it("grants counts to analysts only", async function () {
+      await (await submit(signers.deployer, HIGHLY_BIASED)).wait();
+      await analyze(1);
+
+      await expect(
+        contract.connect(signers.bob).allowBiasCount("HighlyBiased"),
+      ).to.be.revertedWith("Unauthorized analyst");
+      await expect(contract.allowBiasCount("Neutral")).to.be.revertedWith(
+        "Category not found",
+      );
+    });
+
+    it("refuses to decrypt a category without analyses", async function () {
+      await expect(
+        contract.requestBiasCountDecryption("Neutral"),
+      ).to.be.revertedWith("Category not found");
+    });
+
+    it("publishes the decrypted count through decryptBiasCount", async function () {
+      await (await submit(signers.deployer, HIGHLY_BIASED)).wait();
+      await (await submit(signers.deployer, HIGHLY_BIASED)).wait();
+      await analyze(1);
+      await analyze(2);
+
+      await (await contract.requestBiasCountDecryption("HighlyBiased")).wait();
+      const fromBlock = await ethers.provider.getBlockNumber();
+      await fhevm.awaitDecryptionOracle();
+
+      const events = await contract.queryFilter(
+        contract.filters.BiasCountDecrypted(),
+        fromBlock,
+      );
+      expect(events).to.have.lengthOf(1);
+      expect(await contract.decryptedBiasCount("HighlyBiased")).to.equal(2);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+import {
+  decodeRevert,
+  describeTxError,
+  PreflightError,
+} from "../frontend/web/src/preflight";
+
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+const requireData = (reason: string) =>
+  ethers.concat(["0x08c379a0", coder.encode(["string"], [reason])]);
+
+const panicData = (code: number) =>
+  ethers.concat(["0x4e487b71", coder.encode(["uint256"], [code])]);
+
+const ACL = new ethers.Interface([
+  "error ACLNotAllowed(bytes32 handle, address account)",
+]);
+const ACCOUNT = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+describe("Preflight revert decoding", function () {
+  it("maps the contract's require strings to readable messages", function () {
+    expect(
+      decodeRevert({ data: requireData("Unauthorized analyst") }),
+    ).to.deep.equal({
+      name: "Error",
+      args: ["Unauthorized analyst"],
+      message:
+        "Your account is not an authorized analyst. An existing analyst has to authorize it first.",
+    });
+    expect(
+      decodeRevert({ data: requireData("Category not found") })!.message,
+    ).to.equal("No article has been classified in this bias category yet.");
+  });
+
+  it("passes unknown require strings through", function () {
+    expect(
+      decodeRevert({ data: requireData("Something else") })!.message,
+    ).to.equal("Something else");
+  });
+
+  it("decodes panics", function () {
+    const revert = decodeRevert({ data: panicData(0x11) })!;
+    expect(revert.name).to.equal("Panic");
+    expect(revert.args).to.deep.equal([17n]);
+    expect(revert.message).to.equal(
+      "The contract failed: Panic due to OVERFLOW(17).",
+    );
+  });
+
+  it("decodes the fhevm custom errors", function () {
+    const handle = ethers.hexlify(ethers.randomBytes(32));
+    const revert = decodeRevert({
+      data: ACL.encodeErrorResult("ACLNotAllowed", [handle, ACCOUNT]),
+    })!;
+    expect(revert.name).to.equal("ACLNotAllowed");
+    expect(revert.args).to.deep.equal([handle, ACCOUNT]);
+    expect(revert.message).to.equal(
+      `Account ${ACCOUNT} may not use this ciphertext.`,
+    );
+  });
+
+  it("decodes custom errors of the given interfaces", function () {
+    const iface = new ethers.Interface(["error TooLate(uint256 deadline)"]);
+    const revert = decodeRevert(
+      { data: iface.encodeErrorResult("TooLate", [5]) },
+      iface,
+    )!;
+    expect(revert.name).to.equal("TooLate");
+    expect(revert.message).to.equal(
+      "The contract rejected the transaction: TooLate(uint256).",
+    );
+  });
+
+  it("reports the selector of unknown revert data", function () {
+    expect(decodeRevert({ data: "0xdeadbeef00" })).to.deep.equal({
+      name: null,
+      args: [],
+      message: "The transaction would revert (0xdeadbeef).",
+    });
+  });
+
+  it("finds revert data nested in wallet and provider errors", function () {
+    const data = requireData("Analysis already completed");
+    for (const error of [
+      { info: { error: { data } } },
+      { error: { data: { data } } },
+      { cause: { error: { data } } },
+    ]) {
+      expect(decodeRevert(error)!.message).to.equal(
+        "This article has already been analyzed.",
+      );
+    }
+  });
+
+  it("reports reverts without data and ignores other errors", function () {
+    const callException = ethers.makeError("reverted", "CALL_EXCEPTION", {
+      action: "call",
+      data: null,
+      reason: null,
+      transaction: { to: null, from: undefined, data: "0x" },
+      invocation: null,
+      revert: null,
+    });
+    expect(decodeRevert(callException)!.message).to.equal(
+      "The transaction would revert without a reason.",
+    );
+    expect(decodeRevert({ data: "0x" })!.name).to.equal(null);
+    expect(decodeRevert(new Error("socket hang up"))).to.equal(null);
+  });
+
+  it("describes rejected and failed transactions", function () {
+    expect(
+      describeTxError(
+        ethers.makeError("user rejected", "ACTION_REJECTED", {
+          action: "sendTransaction",
+          reason: "rejected",
+        }),
+      ),
+    ).to.equal("Transaction rejected by user");
+    expect(
+      describeTxError(
+        new PreflightError("Submit", {
+          name: null,
+          args: [],
+          message: "decoded",
+        }),
+      ),
+    ).to.equal("decoded");
+    expect(describeTxError({ data: requireData("Invalid request") })).to.equal(
+      "The decryption request is unknown to the contract.",
+    );
+    expect(describeTxError(new Error("socket hang up"))).to.equal(
+      "socket hang up",
+    );
+  });
+});
@@ -0,0 +1,292 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+import { RpcPool } from "../frontend/web/src/rpcPool";
+
+const CHAIN_ID = 31337;
+
+interface FakeEndpoint {
+  chainId?: number;
+  head?: number;
+  // Answers a request, throwing makes the HTTP request fail
+  handle?: (method: string, params: any[]) => unknown;
+}
+
+interface Call {
+  url: string;
+  method: string;
+  params: any[];
+}
+
+// Serves the pool's fetch calls from in-memory endpoints keyed by URL
+function fakeNetwork(endpoints: Record<string, FakeEndpoint>) {
+  const calls: Call[] = [];
+  const original = globalThis.fetch;
+  globalThis.fetch = (async (url: string, init: { body: string }) => {
+    const { id, method, params } = JSON.parse(init.body);
+    calls.push({ url, method, params });
+    const endpoint = endpoints[url];
+    if (method === "eth_chainId") {
+      return Response.json({
+        id,
+        jsonrpc: "2.0",
+        result: ethers.toQuantity(endpoint.chainId ?? CHAIN_ID),
+      });
+    }
+    if (method === "eth_blockNumber" && endpoint.head !== undefined) {
+      return Response.json({
+        id,
+        jsonrpc: "2.0",
+        result: ethers.toQuantity(endpoint.head),
+      });
+    }
+    try {
+      const result = endpoint.handle!(method, params);
+      return Response.json({ id, jsonrpc: "2.0", result });
+    } catch (e: any) {
+      return new Response(e.message, { status: 500 });
+    }
+  }) as typeof fetch;
+  return {
+    calls,
+    // Requests other than the pool's own chain and head checks
+    reads: () =>
+      calls.filter(
+        (c) => c.method !== "eth_chainId" && c.method !== "eth_blockNumber",
+      ),
+    restore: () => {
+      globalThis.fetch = original;
+    },
+  };
+}
+
+const call = (method: string, params: any[] = []) => ({
+  id: 1,
+  jsonrpc: "2.0" as const,
+  method,
+  params,
+});
+
+const resultOf = (response: unknown) =>
+  (response as { result: unknown }).result;
+
+const failing = () => {
+  throw new Error("unavailable");
+};
+
+describe("RPC pool", function () {
+  let network: ReturnType<typeof fakeNetwork>;
+
+  afterEach(function () {
+    network.restore();
+  });
+
+  describe("failover", function () {
+    it("fails over to the next endpoint when one errors", async function () {
+      network = fakeNetwork({
+        a: { handle: failing },
+        b: { handle: () => "0x2a" },
+      });
+      const pool = new RpcPool(CHAIN_ID, ["a", "b"]);
+
+      expect(resultOf(await pool.request(call("eth_gasPrice")))).to.equal(
+        "0x2a",
+      );
+      expect(network.reads().map((c) => c.url)).to.deep.equal(["a", "b"]);
+    });
+
+    it("skips endpoints serving another chain", async function () {
+      network = fakeNetwork({
+        a: { chainId: 1, handle: () => "0x1" },
+        b: { handle: () => "0x2" },
+      });
+      const pool = new RpcPool(CHAIN_ID, ["a", "b"]);
+
+      expect(resultOf(await pool.request(call("eth_gasPrice")))).to.equal(
+        "0x2",
+      );
+      expect(network.reads().map((c) => c.url)).to.deep.equal(["b"]);
+    });
+
+    it("throws when every endpoint fails", async function () {
+      network = fakeNetwork({ a: { handle: failing }, b: { handle: failing } });
+      const pool = new RpcPool(CHAIN_ID, ["a", "b"]);
+
+      await expect(pool.request(call("eth_gasPrice"))).to.be.rejectedWith(
+        "HTTP 500",
+      );
+    });
+  });
+
+  describe("health", function () {
+    it("scores endpoints by their error rate and latency", async function () {
+      let aFails = true;
+      network = fakeNetwork({
+        a: { handle: () => (aFails ? failing() : "0x1") },
+        b: { handle: () => "0x2" },
+      });
+      const pool = new RpcPool(CHAIN_ID, ["a", "b"]);
+      expect(pool.health().state).to.equal("unknown");
+
+      await pool.request(call("eth_gasPrice"));
+      const [a, b] = pool.health().endpoints;
+      expect(a).to.deep.include({
+        state: "degraded",
+        requests: 2,
+        failures: 1,
+        lastError: "HTTP 500",
+      });
+      expect(a.errorRate).to.be.closeTo(0.3, 1e-9);
+      expect(b).to.deep.include({ state: "healthy", errorRate: 0 });
+      expect(b.latencyMs).to.be.a("number");
+      expect(pool.health().state).to.equal("healthy");
+
+      // The healthy endpoint is asked first from now on
+      aFails = false;
+      await pool.request(call("eth_gasPrice"));
+      expect(network.reads().map((c) => c.url)).to.deep.equal(["a", "b", "b"]);
+    });
+
+    it("marks an endpoint down after consecutive failures", async function () {
+      network = fakeNetwork({ a: { handle: failing }, b: { handle: failing } });
+      const pool = new RpcPool(CHAIN_ID, ["a", "b"]);
+      for (let i = 0; i < 3; i++) {
+        await pool.request(call("eth_gasPrice")).catch(() => undefined);
+      }
+      expect(pool.health().endpoints.map((e) => e.state)).to.deep.equal([
+        "down",
+        "down",
+      ]);
+      expect(pool.health().state).to.equal("down");
+    });
+
+    it("notifies subscribers after every request", async function () {
+      network = fakeNetwork({ a: { handle: () => "0x1" } });
+      const pool = new RpcPool(CHAIN_ID, ["a"]);
+      const states: string[] = [];
+      const unsubscribe = pool.subscribe((health) => states.push(health.state));
+
+      await pool.request(call("eth_gasPrice"));
+      unsubscribe();
+      await pool.request(call("eth_gasPrice"));
+      expect(states).to.deep.equal(["unknown", "healthy"]);
+    });
+  });
+
+  describe("quorum", function () {
+    const reader = (result: string) => (method: string, params: any[]) =>
+      method === "eth_call" ? result : failing();
+
+    it("resolves once enough endpoints agree", async function () {
+      network = fakeNetwork({
+        a: { head: 5, handle: reader("0x01") },
+        b: { head: 5, handle: reader("0x01") },
+        c: { head: 5, handle: reader("0x01") },
+      });
+      const pool = new RpcPool(CHAIN_ID, ["a", "b", "c"], 2);
+
+      const response = await pool.request(call("eth_call", [{}, "latest"]), 2);
+      expect(resultOf(response)).to.equal("0x01");
+      // Two endpoints are asked at once, the third only when they disagree
+      expect(network.reads()).to.have.length(2);
+    });
+
+    it("asks further endpoints when answers disagree", async function () {
+      network = fakeNetwork({
+        a: { head: 5, handle: reader("0x01") },
+        b: { head: 5, handle: reader("0x02") },
+        c: { head: 5, handle: reader("0x01") },
+      });
+      const pool = new RpcPool(CHAIN_ID, ["a", "b", "c"], 2);
+
+      const response = await pool.request(call("eth_call", [{}, "latest"]), 2);
+      expect(resultOf(response)).to.equal("0x01");
+      expect(network.reads()).to.have.length(3);
+    });
+
+    it("rejects when no answer reaches the quorum", async function () {
+      network = fakeNetwork({
+        a: { head: 5, handle: reader("0x01") },
+        b: { head: 5, handle: reader("0x02") },
+        c: { head: 5, handle: failing },
+      });
+      const pool = new RpcPool(CHAIN_ID, ["a", "b", "c"], 2);
+
+      await expect(
+        pool.request(call("eth_call", [{}, "latest"]), 2),
+      ).to.be.rejectedWith("No 2 of 3 RPC endpoints agreed on eth_call");
+    });
+
+    it("pins latest to a block the quorum has reached", async function () {
+      // Each endpoint answers with the block it was asked for; at "latest" they would differ
+      const atBlock = (head: number) => (method: string, params: any[]) =>
+        params[1] === "latest" ? ethers.toQuantity(head) : params[1];
+      network = fakeNetwork({
+        a: { head: 12, handle: atBlock(12) },
+        b: { head: 11, handle: atBlock(11) },
+        c: { head: 10, handle: atBlock(10) },
+      });
+      const pool = new RpcPool(CHAIN_ID, ["a", "b", "c"], 2);
+
+      const response = await pool.request(call("eth_call", [{}, "latest"]), 2);
+      expect(resultOf(response)).to.equal("0xb");
+      const reads = network.reads();
+      expect(reads.map((c) => c.params[1])).to.deep.equal(["0xb", "0xb"]);
+      // The endpoint behind the pinned block is not asked
+      expect(reads.map((c) => c.url)).to.not.include("c");
+    });
+
+    it("only asks endpoints whose head covers an explicit range", async function () {
+      const logs = () => [];
+      network = fakeNetwork({
+        a: { head: 20, handle: logs },
+        b: { head: 9, handle: logs },
+        c: { head: 20, handle: logs },
+      });
+      const pool = new RpcPool(CHAIN_ID, ["a", "b", "c"], 2);
+
+      const filter = { address: ethers.ZeroAddress, fromBlock: "0x1" };
+      await pool.request(
+        call("eth_getLogs", [{ ...filter, toBlock: "0xf" }]),
+        2,
+      );
+      expect(network.reads().map((c) => c.url)).to.have.members(["a", "c"]);
+
+      await expect(
+        pool.request(call("eth_getLogs", [{ ...filter, toBlock: "0x15" }]), 2),
+      ).to.be.rejectedWith("Only 0 RPC endpoint(s) have reached the block");
+    });
+
+    it("reads the head a quorum of endpoints a block apart has reached", async function () {
+      const logs = () => [];
+      network = fakeNetwork({
+        a: { head: 12, handle: logs },
+        b: { head: 11, handle: logs },
+      });
+      const pool = new RpcPool(CHAIN_ID, ["a", "b"], 2);
+
+      const head = resultOf(await pool.request(call("eth_blockNumber"), 2));
+      expect(head).to.equal("0xb");
+      // A sync up to that head is answered by both endpoints
+      const filter = { address: ethers.ZeroAddress, fromBlock: "0x1" };
+      await pool.request(
+        call("eth_getLogs", [{ ...filter, toBlock: head }]),
+        2,
+      );
+      expect(network.reads().map((c) => c.url)).to.have.members(["a", "b"]);
+    });
+
+    it("leaves reads outside the quorum methods to failover", async function () {
+      network = fakeNetwork({
+        a: { head: 5, handle: () => "0x1" },
+        b: { head: 6, handle: () => "0x2" },
+      });
+      const pool = new RpcPool(CHAIN_ID, ["a", "b"], 2);
+
+      expect(resultOf(await pool.request(call("eth_gasPrice"), 2))).to.equal(
+        "0x1",
+      );
+      expect(network.reads()).to.have.length(1);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers as ethersLib } from "ethers";
+import { ethers, network } from "hardhat";
+
+import {
+  TrackedTx,
+  TxManager,
+  TxStatus,
+  TxStorage,
+} from "../frontend/web/src/txManager";
+import { NewsBiasFHE, NewsBiasFHE__factory } from "../types";
+
+const STORAGE_KEY = "newsbias:transactions:test";
+
+class MemoryStorage implements TxStorage {
+  private readonly items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+}
+
+// Resolves once the tracked transaction reaches `status`, the manager polls every 2 seconds
+function until(manager: TxManager, id: string, status: TxStatus) {
+  return new Promise<TrackedTx>((resolve) => {
+    const unsubscribe = manager.subscribe(() => {
+      const entry = manager.get(id);
+      if (entry?.status === status) {
+        setTimeout(() => unsubscribe());
+        resolve(entry);
+      }
+    });
+  });
+}
+
+const mine = (blocks = 1) =>
+  network.provider.send("hardhat_mine", [ethersLib.toQuantity(blocks)]);
+
+describe("TxManager", function () {
+  this.timeout(30000);
+
+  let provider: ethersLib.BrowserProvider;
+  let storage: MemoryStorage;
+  let sender: HardhatEthersSigner;
+  let recipient: HardhatEthersSigner;
+
+  const manager = (confirmations = 2) =>
+    new TxManager(provider, confirmations, storage, STORAGE_KEY);
+
+  before(async function () {
+    [sender, recipient] = await ethers.getSigners();
+    // The manager reads the chain like the dashboard, through a plain ethers provider
+    provider = new ethersLib.BrowserProvider(network.provider);
+  });
+
+  beforeEach(function () {
+    storage = new MemoryStorage();
+  });
+
+  afterEach(async function () {
+    await network.provider.send("evm_setAutomine", [true]);
+  });
+
+  it("moves a transaction from submitted through mined to confirmed", async function () {
+    await network.provider.send("evm_setAutomine", [false]);
+    const txs = manager();
+    const tx = await sender.sendTransaction({
+      to: recipient.address,
+      value: 1,
+    });
+    const receipt = txs.track(tx, "Transfer");
+    await until(txs, tx.hash, "submitted");
+
+    const mined = until(txs, tx.hash, "mined");
+    await mine();
+    expect((await receipt).hash).to.equal(tx.hash);
+    expect(await mined).to.deep.include({ confirmations: 1 });
+
+    const confirmed = until(txs, tx.hash, "confirmed");
+    await mine();
+    expect(await confirmed).to.deep.include({ confirmations: 2 });
+  });
+
+  it("fails a transaction that reverts", async function () {
+    const factory = (await ethers.getContractFactory(
+      "NewsBiasFHE",
+    )) as NewsBiasFHE__factory;
+    const contract = (await factory.deploy()) as NewsBiasFHE;
+    await contract.waitForDeployment();
+
+    // Queued without automine, the node would otherwise reject it on sending
+    await network.provider.send("evm_setAutomine", [false]);
+    const txs = manager();
+    const tx = await contract.analyzeBias(42, "0x", "0x", {
+      gasLimit: 500_000,
+    });
+    const receipt = txs.track(tx, "Callback");
+    await mine();
+
+    await expect(receipt).to.be.rejectedWith("Callback reverted in block");
+    expect(txs.get(tx.hash)).to.deep.include({ status: "failed" });
+  });
+
+  it("follows a resend of the same call and reports a replacement", async function () {
+    await network.provider.send("evm_setAutomine", [false]);
+    const txs = manager(1);
+    const nonce = await sender.getNonce();
+    const fees = { maxFeePerGas: 10n ** 10n, maxPriorityFeePerGas: 10n ** 9n };
+    const faster = {
+      maxFeePerGas: 10n ** 11n,
+      maxPriorityFeePerGas: 10n ** 10n,
+    };
+
+    // Same call with a higher fee: the manager follows the new hash
+    const original = await sender.sendTransaction({
+      to: recipient.address,
+      value: 1,
+      nonce,
+      ...fees,
+    });
+    const followed = txs.track(original, "Sped up");
+    const resend = await sender.sendTransaction({
+      to: recipient.address,
+      value: 1,
+      nonce,
+      ...faster,
+    });
+    await mine();
+    expect((await followed).hash).to.equal(resend.hash);
+    expect(txs.get(original.hash)).to.deep.include({
+      status: "confirmed",
+      hash: resend.hash,
+    });
+
+    // Another call with the same nonce: the tracked one is replaced
+    const cancelled = await sender.sendTransaction({
+      to: recipient.address,
+      value: 1,
+      nonce: nonce + 1,
+      ...fees,
+    });
+    const replaced = txs.track(cancelled, "Cancelled");
+    const other = await sender.sendTransaction({
+      to: sender.address,
+      value: 0,
+      nonce: nonce + 1,
+      ...faster,
+    });
+    await mine();
+    await expect(replaced).to.be.rejectedWith("Cancelled was replaced");
+    expect(txs.get(cancelled.hash)).to.deep.include({
+      status: "replaced",
+      replacedBy: other.hash,
+    });
+  });
+
+  it("resumes pending transactions after a reload", async function () {
+    await network.provider.send("evm_setAutomine", [false]);
+    const before = manager(1);
+    const done = await sender.sendTransaction({ to: recipient.address });
+    const doneReceipt = before.track(done, "Done");
+    await mine();
+    await doneReceipt;
+    await until(before, done.hash, "confirmed");
+
+    const pending = await sender.sendTransaction({ to: recipient.address });
+    // Not awaited: the page is reloaded before it is mined
+    before.track(pending, "Pending");
+    await until(before, pending.hash, "submitted");
+
+    const reloaded = manager(1);
+    expect(reloaded.list().map((tx) => [tx.id, tx.status])).to.deep.equal([
+      [pending.hash, "submitted"],
+      [done.hash, "confirmed"],
+    ]);
+    expect((await reloaded.wait(done.hash)).hash).to.equal(done.hash);
+
+    expect(reloaded.resume()).to.deep.equal([pending.hash]);
+    const receipt = reloaded.wait(pending.hash);
+    await mine();
+    expect((await receipt).hash).to.equal(pending.hash);
+  });
+
+  it("answers waits for transactions it no longer tracks", async function () {
+    const mined = await sender.sendTransaction({ to: recipient.address });
+    await mined.wait();
+    const txs = manager();
+
+    // A hash from the activity log whose entry was pruned or cleared
+    expect((await txs.wait(mined.hash)).hash).to.equal(mined.hash);
+    await expect(txs.wait(ethersLib.ZeroHash)).to.be.rejectedWith(
+      "is not tracked and has not been mined",
+    );
+  });
+});
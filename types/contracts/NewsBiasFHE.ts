@@ -0,0 +1,590 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface NewsBiasFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "allowBiasCount"
+      | "allowBiasCounts"
+      | "analyses"
+      | "analyzeBias"
+      | "articleCount"
+      | "articles"
+      | "authorizeAnalyst"
+      | "authorizedAnalysts"
+      | "decryptBiasCount"
+      | "decryptedBiasCount"
+      | "getBiasAnalysis"
+      | "getEncryptedBiasCount"
+      | "protocolId"
+      | "requestBiasAnalysis"
+      | "requestBiasCountDecryption"
+      | "submitEncryptedArticle"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AnalysisCompleted"
+      | "AnalysisRequested"
+      | "ArticleSubmitted"
+      | "BiasCountDecrypted"
+      | "DecryptionFulfilled"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "allowBiasCount",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowBiasCounts",
+    values: [string[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "analyses",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "analyzeBias",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "articleCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "articles",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "authorizeAnalyst",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "authorizedAnalysts",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptBiasCount",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptedBiasCount",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBiasAnalysis",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedBiasCount",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestBiasAnalysis",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestBiasCountDecryption",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedArticle",
+    values: [BytesLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "allowBiasCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowBiasCounts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "analyses", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "analyzeBias",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "articleCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "articles", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "authorizeAnalyst",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "authorizedAnalysts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptBiasCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptedBiasCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBiasAnalysis",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedBiasCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "requestBiasAnalysis",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestBiasCountDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedArticle",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AnalysisCompletedEvent {
+  export type InputTuple = [articleId: BigNumberish];
+  export type OutputTuple = [articleId: bigint];
+  export interface OutputObject {
+    articleId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AnalysisRequestedEvent {
+  export type InputTuple = [articleId: BigNumberish];
+  export type OutputTuple = [articleId: bigint];
+  export interface OutputObject {
+    articleId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ArticleSubmittedEvent {
+  export type InputTuple = [articleId: BigNumberish, timestamp: BigNumberish];
+  export type OutputTuple = [articleId: bigint, timestamp: bigint];
+  export interface OutputObject {
+    articleId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BiasCountDecryptedEvent {
+  export type InputTuple = [biasCategory: string, count: BigNumberish];
+  export type OutputTuple = [biasCategory: string, count: bigint];
+  export interface OutputObject {
+    biasCategory: string;
+    count: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface NewsBiasFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): NewsBiasFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: NewsBiasFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  allowBiasCount: TypedContractMethod<
+    [biasCategory: string],
+    [void],
+    "nonpayable"
+  >;
+
+  allowBiasCounts: TypedContractMethod<
+    [biasCategories: string[]],
+    [void],
+    "nonpayable"
+  >;
+
+  analyses: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, boolean] & {
+        biasScore: string;
+        comparisonResult: string;
+        mediaOutlet: string;
+        isAnalyzed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  analyzeBias: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  articleCount: TypedContractMethod<[], [bigint], "view">;
+
+  articles: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, bigint] & {
+        articleId: bigint;
+        encryptedContent: string;
+        encryptedSentiment: string;
+        encryptedKeywords: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  authorizeAnalyst: TypedContractMethod<
+    [analyst: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  authorizedAnalysts: TypedContractMethod<
+    [arg0: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  decryptBiasCount: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  decryptedBiasCount: TypedContractMethod<[arg0: string], [bigint], "view">;
+
+  getBiasAnalysis: TypedContractMethod<
+    [articleId: BigNumberish],
+    [
+      [string, string, string, boolean] & {
+        biasScore: string;
+        comparisonResult: string;
+        mediaOutlet: string;
+        isAnalyzed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getEncryptedBiasCount: TypedContractMethod<
+    [biasCategory: string],
+    [string],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  requestBiasAnalysis: TypedContractMethod<
+    [articleId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestBiasCountDecryption: TypedContractMethod<
+    [biasCategory: string],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedArticle: TypedContractMethod<
+    [
+      contentInput: BytesLike,
+      sentimentInput: BytesLike,
+      keywordsInput: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "allowBiasCount"
+  ): TypedContractMethod<[biasCategory: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "allowBiasCounts"
+  ): TypedContractMethod<[biasCategories: string[]], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "analyses"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, boolean] & {
+        biasScore: string;
+        comparisonResult: string;
+        mediaOutlet: string;
+        isAnalyzed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "analyzeBias"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "articleCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "articles"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, bigint] & {
+        articleId: bigint;
+        encryptedContent: string;
+        encryptedSentiment: string;
+        encryptedKeywords: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "authorizeAnalyst"
+  ): TypedContractMethod<[analyst: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "authorizedAnalysts"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "decryptBiasCount"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "decryptedBiasCount"
+  ): TypedContractMethod<[arg0: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getBiasAnalysis"
+  ): TypedContractMethod<
+    [articleId: BigNumberish],
+    [
+      [string, string, string, boolean] & {
+        biasScore: string;
+        comparisonResult: string;
+        mediaOutlet: string;
+        isAnalyzed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedBiasCount"
+  ): TypedContractMethod<[biasCategory: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "requestBiasAnalysis"
+  ): TypedContractMethod<[articleId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestBiasCountDecryption"
+  ): TypedContractMethod<[biasCategory: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submitEncryptedArticle"
+  ): TypedContractMethod<
+    [
+      contentInput: BytesLike,
+      sentimentInput: BytesLike,
+      keywordsInput: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "AnalysisCompleted"
+  ): TypedContractEvent<
+    AnalysisCompletedEvent.InputTuple,
+    AnalysisCompletedEvent.OutputTuple,
+    AnalysisCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AnalysisRequested"
+  ): TypedContractEvent<
+    AnalysisRequestedEvent.InputTuple,
+    AnalysisRequestedEvent.OutputTuple,
+    AnalysisRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ArticleSubmitted"
+  ): TypedContractEvent<
+    ArticleSubmittedEvent.InputTuple,
+    ArticleSubmittedEvent.OutputTuple,
+    ArticleSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BiasCountDecrypted"
+  ): TypedContractEvent<
+    BiasCountDecryptedEvent.InputTuple,
+    BiasCountDecryptedEvent.OutputTuple,
+    BiasCountDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+
+  filters: {
+    "AnalysisCompleted(uint256)": TypedContractEvent<
+      AnalysisCompletedEvent.InputTuple,
+      AnalysisCompletedEvent.OutputTuple,
+      AnalysisCompletedEvent.OutputObject
+    >;
+    AnalysisCompleted: TypedContractEvent<
+      AnalysisCompletedEvent.InputTuple,
+      AnalysisCompletedEvent.OutputTuple,
+      AnalysisCompletedEvent.OutputObject
+    >;
+
+    "AnalysisRequested(uint256)": TypedContractEvent<
+      AnalysisRequestedEvent.InputTuple,
+      AnalysisRequestedEvent.OutputTuple,
+      AnalysisRequestedEvent.OutputObject
+    >;
+    AnalysisRequested: TypedContractEvent<
+      AnalysisRequestedEvent.InputTuple,
+      AnalysisRequestedEvent.OutputTuple,
+      AnalysisRequestedEvent.OutputObject
+    >;
+
+    "ArticleSubmitted(uint256,uint256)": TypedContractEvent<
+      ArticleSubmittedEvent.InputTuple,
+      ArticleSubmittedEvent.OutputTuple,
+      ArticleSubmittedEvent.OutputObject
+    >;
+    ArticleSubmitted: TypedContractEvent<
+      ArticleSubmittedEvent.InputTuple,
+      ArticleSubmittedEvent.OutputTuple,
+      ArticleSubmittedEvent.OutputObject
+    >;
+
+    "BiasCountDecrypted(string,uint32)": TypedContractEvent<
+      BiasCountDecryptedEvent.InputTuple,
+      BiasCountDecryptedEvent.OutputTuple,
+      BiasCountDecryptedEvent.OutputObject
+    >;
+    BiasCountDecrypted: TypedContractEvent<
+      BiasCountDecryptedEvent.InputTuple,
+      BiasCountDecryptedEvent.OutputTuple,
+      BiasCountDecryptedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+  };
+}
@@ -1,5 +1,7 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { CsrFeedbackFHE } from "./CsrFeedbackFHE";
+import type * as test from "./test";
+export type { test };
+export type { NewsBiasFHE } from "./NewsBiasFHE";
 export type { UniversalAdapter } from "./UniversalAdapter";
@@ -0,0 +1,161 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface BiasScoringHarnessInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "calculateBiasScore"
+      | "compareWithBaseline"
+      | "identifyMediaOutlet"
+      | "scoreRow"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "calculateBiasScore",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "compareWithBaseline",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "identifyMediaOutlet",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "scoreRow",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "calculateBiasScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "compareWithBaseline",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "identifyMediaOutlet",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "scoreRow", data: BytesLike): Result;
+}
+
+export interface BiasScoringHarness extends BaseContract {
+  connect(runner?: ContractRunner | null): BiasScoringHarness;
+  waitForDeployment(): Promise<this>;
+
+  interface: BiasScoringHarnessInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  calculateBiasScore: TypedContractMethod<
+    [contentScore: BigNumberish, sentiment: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  compareWithBaseline: TypedContractMethod<
+    [contentScore: BigNumberish, sentiment: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  identifyMediaOutlet: TypedContractMethod<
+    [keywords: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  scoreRow: TypedContractMethod<
+    [contentScore: BigNumberish, maxSentiment: BigNumberish],
+    [[string[], string[]] & { biasScores: string[]; comparisons: string[] }],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "calculateBiasScore"
+  ): TypedContractMethod<
+    [contentScore: BigNumberish, sentiment: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "compareWithBaseline"
+  ): TypedContractMethod<
+    [contentScore: BigNumberish, sentiment: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "identifyMediaOutlet"
+  ): TypedContractMethod<[keywords: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "scoreRow"
+  ): TypedContractMethod<
+    [contentScore: BigNumberish, maxSentiment: BigNumberish],
+    [[string[], string[]] & { biasScores: string[]; comparisons: string[] }],
+    "view"
+  >;
+
+  filters: {};
+}
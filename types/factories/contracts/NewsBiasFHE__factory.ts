@@ -0,0 +1,490 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  NewsBiasFHE,
+  NewsBiasFHEInterface,
+} from "../../contracts/NewsBiasFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "articleId",
+        type: "uint256",
+      },
+    ],
+    name: "AnalysisCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "articleId",
+        type: "uint256",
+      },
+    ],
+    name: "AnalysisRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "articleId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ArticleSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "biasCategory",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+    ],
+    name: "BiasCountDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "biasCategory",
+        type: "string",
+      },
+    ],
+    name: "allowBiasCount",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string[]",
+        name: "biasCategories",
+        type: "string[]",
+      },
+    ],
+    name: "allowBiasCounts",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "analyses",
+    outputs: [
+      {
+        internalType: "string",
+        name: "biasScore",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "comparisonResult",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "mediaOutlet",
+        type: "string",
+      },
+      {
+        internalType: "bool",
+        name: "isAnalyzed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "analyzeBias",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "articleCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "articles",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "articleId",
+        type: "uint256",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedContent",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedSentiment",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedKeywords",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "analyst",
+        type: "address",
+      },
+    ],
+    name: "authorizeAnalyst",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "authorizedAnalysts",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "decryptBiasCount",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "decryptedBiasCount",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "articleId",
+        type: "uint256",
+      },
+    ],
+    name: "getBiasAnalysis",
+    outputs: [
+      {
+        internalType: "string",
+        name: "biasScore",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "comparisonResult",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "mediaOutlet",
+        type: "string",
+      },
+      {
+        internalType: "bool",
+        name: "isAnalyzed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "biasCategory",
+        type: "string",
+      },
+    ],
+    name: "getEncryptedBiasCount",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "articleId",
+        type: "uint256",
+      },
+    ],
+    name: "requestBiasAnalysis",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "biasCategory",
+        type: "string",
+      },
+    ],
+    name: "requestBiasCountDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "contentInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "sentimentInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "keywordsInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitEncryptedArticle",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60806040523461016c575f6060610014610170565b828152826020820152826040820152015261002d610170565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970391825416179055335f52600760205260405f20600160ff198254161790556040516122c79081620001a48239f35b5f80fd5b60405190608082016001600160401b0381118382101761018f57604052565b634e487b7160e01b5f52604160045260245ffdfe60406080815260049081361015610014575f80fd5b5f3560e01c806316f63220146114215780633acdfebb146113c2578063414e28b0146113a55780634971c82f14610e235780635066ce7214610de357806359c55cf214610d8f5780635db9d1ec14610a905780637c866149146107b15780637dff64bf14610771578063af56cc7214610719578063b903a9f0146106df578063d8a8ef6314610624578063da1f12ab14610608578063e41b4409146105ad578063edcfafe61461055a5763ff7b0fa3146100cc575f80fd5b34610556576080366003190112610556576024606435916001600160401b03808411610556573660238501121561055657838501359080821161055657838501948483369201011161055657335f526020936007855261013160ff855f2054166117c9565b61017261016a61014c61014536878b611582565b8a3561205a565b9761016261015b368884611582565b853561205a565b953691611582565b60443561205a565b9261017d308861216c565b610187308261216c565b610191308561216c565b61019b338861216c565b6101a5338261216c565b6101af338561216c565b5f549660019485890180991161054457885f5586519260a084018481108782111761053257908b93929189528a85528985019283528885019081526060850191825260808501924284528b5f52888b52895f209551865551888601555160028501555160038401555191015583519160808301838110828211176105205780865261023981611546565b5f8152835284519361024a85611546565b5f855286840194855285519261025f84611546565b5f845286850193845260608501955f8752895f5260028952875f2095518051908582116104ae5761029a826102948a54611687565b8a6118aa565b8a90601f83116001146104c0576102c892915f91836103ad575b50508160011b915f199060031b1c19161790565b86555b518051868401918582116104ae576102ed826102e78554611687565b856118aa565b8a90601f831160011461044e5761031a92915f91836103ad5750508160011b915f199060031b1c19161790565b90555b600285019351998a5193841161043d57505061033d826102e78554611687565b8690601f83116001146103b85750816003949392610392927f45b2dff6e6d149d291f562304f71a360e1dadc140c1ad691f353b48879fd8e8b9a9b5f926103ad5750508160011b915f199060031b1c19161790565b90555b019051151560ff8019835416911617905551428152a2005b015190505f806102b4565b9190601f19821699845f52885f209a5f5b8181106104285750917f45b2dff6e6d149d291f562304f71a360e1dadc140c1ad691f353b48879fd8e8b9a9b91846003989796959410610411575b505050811b019055610395565b01515f1983881b60f8161c191690555f8080610404565b838301518d559b85019b928a01928a016103c9565b604190634e487b7160e01b5f52525ffd5b8592918c91601f198416865f52835f20935f905b828210610497575050841161047f575b505050811b01905561031d565b01515f1960f88460031b161c191690555f8080610472565b8385015186558a979095019493840193018f610462565b8360418e634e487b7160e01b5f52525ffd5b8592918c91601f1984168b5f52835f20935f905b82821061050957505084116104f1575b505050811b0186556102cb565b01515f1960f88460031b161c191690555f80806104e4565b8385015186558a979095019493840193018f6104d4565b8260418a634e487b7160e01b5f52525ffd5b8560418d634e487b7160e01b5f52525ffd5b8360118b634e487b7160e01b5f52525ffd5b5f80fd5b5090346105565760203660031901126105565760a09181355f526001602052805f208054926001820154926002830154916003840154930154938151958652602086015284015260608301526080820152f35b50903461055657602036600319011261055657355f526002602052805f209061060460ff6003840154166105e0846116bf565b926105f960026105f2600188016116bf565b96016116bf565b905194859485611786565b0390f35b5034610556575f36600319011261055657602090516127118152f35b5090346105565761063436611620565b90939192835f526106586020926006845286610652865f2054611fc0565b96611aac565b81858051810103126105565763ffffffff610695837fceb828fa3481cc20e5b1cde4575129d625617b66c0360fe68241c85cf77a55be9701611899565b91838551809288516106aa8184868d01611666565b8201908152030190209116908163ffffffff198254161790556106d68351948486958652850190611761565b918301520390a1005b503461055657602090610707826106f5366115c7565b81845193828580945193849201611666565b81016003815203019020549051908152f35b50903461055657602036600319011261055657355f526002602052805f2090610604610744836116bf565b91610751600185016116bf565b9360ff6003610762600284016116bf565b92015416915194859485611786565b50346105565763ffffffff61079f6020809461078c366115c7565b9082865194838680955193849201611666565b82019081520301902054169051908152f35b5034610556576107c0366115c7565b90335f526020600781526107d960ff835f2054166117c9565b81518351908281818701936107ef818387611666565b81016003815203019020549361080685151561180c565b8351946108128661152b565b6001808752848701918536843761082888611a9f565b525f907f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf009283549860018060a01b03805f8051602061229b8339815191525416803b15610556578a51637d6e912360e11b8152808e018b9052905f908290818381610896602482018a6121d3565b03925af18015610a8657610a73575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b15610a6f578951633263b83b60e01b8152808d018c90526060602482015290859082908183816108fe60648201896121d3565b63d8a8ef6360e01b604483015203925af18015610a6557908591610a4d575b508a90527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0180895289852054610a3d578a855288528884209051916001600160401b038311610a2a57600160401b8311610a2a578154838355808410610a03575b50908452878420845b8381106109f25750505050508154905f1982146109df575060069596975060010190556109d183865180936109c483830196879251928391611666565b8101038084520182611561565b519020935f52525f20555f80f35b634e487b7160e01b815260118952602490fd5b825182820155918901918401610987565b82865284848b882092830192015b828110610a1f57505061097e565b5f8155018590610a11565b634e487b7160e01b855260418c52602485fd5b8951633f06d22b60e01b81528c90fd5b610a5690611504565b610a6157835f61091d565b8380fd5b8a513d87823e3d90fd5b8480fd5b610a7e919550611504565b5f935f6108a5565b8b513d5f823e3d90fd5b5034610556576020908160031936011261055657823591335f5260078152610abd60ff835f2054166117c9565b825f526001808252825f209060028352610ae060ff6003865f200154161561184d565b8351906001600160401b036080830181811184821017610d7c5786526003835284830193606036863782810154610b1685611a9f565b5260028101548451841015610d69578488015260030154835160021015610d565760608401525f907f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf009384549560018060a01b03805f8051602061229b8339815191525416803b15610556578a51637d6e912360e11b8152808e018b9052905f908290818381610ba9602482018b6121d3565b03925af18015610a8657610d43575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b15610a6f578951633263b83b60e01b8152808d01899052606060248201529085908290818381610c11606482018a6121d3565b634971c82f60e01b604483015203925af18015610a6557908591610d2f575b508790527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0180895289852054610a3d5787855288528884209151928311610d1c57600160401b8311610d1c578154838355808410610cf5575b5090835286832084845b848110610ce35750505050508254905f1982146109df57509160069391879695930190555f52525f20557f9f321ec8c200fa4d9097b94175b821aae5e877fd25e6543c4765ba98675961d75f80a2005b89845194019381840155018590610c93565b82855285848a872092830192015b828110610d11575050610c89565b5f8155018690610d03565b634e487b7160e01b845260418b52602484fd5b610d3890611504565b610a6157835f610c30565b610d4e919550611504565b5f935f610bb8565b603289634e487b7160e01b5f525260245ffd5b60328a634e487b7160e01b5f525260245ffd5b604189634e487b7160e01b5f525260245ffd5b50903461055657602036600319011261055657356001600160a01b0381169081900361055657335f526007602052610dcc60ff835f2054166117c9565b5f908152600760205220805460ff19166001179055005b50903461055657602036600319011261055657356001600160a01b0381169190829003610556576020915f526007825260ff815f20541690519015158152f35b503461055657610e3236611620565b825f9392935260209260068452845f205495861561137057865f5260028552855f2093610e736003948486880193610e6e60ff8654161561184d565b611aac565b60608380518101031261055657610e8b868401611899565b610ea26060610e9b8a8701611899565b9501611899565b93610ead8183611caa565b9182516001600160401b03938482116112f457610ed482610ece8c54611687565b8c6118aa565b8a90601f8311600114611307579180610f0792610f0e9695945f926103ad5750508160011b915f199060031b1c19161790565b8955611dcc565b93600194858801908051908482116112f457610f2e826102e78554611687565b8a90601f831160011461128f579180610f6192610f689695945f926103ad5750508160011b915f199060031b1c19161790565b9055611ee5565b906002870191805191821161127c57610f85826102e78554611687565b8890601f831160011461121f57610fb292915f91836103ad5750508160011b915f199060031b1c19161790565b90555b805460ff19168317905585518581610fcd81886118f9565b8681520301902054156111a5575b905f9186518681610fec81896118f9565b87815203019020549160018060a01b0390877f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970191604484845416918c519889938492639cd07acb60e01b8452898401528860248401525af194851561119b579088949392915f9661116a575b5085841561115a575b15611140575b606492915f9154168a51968795869463022f65e760e31b865285015260248401528160448401525af1908115611136575f916110ff575b5090846110ca9493926110d9965185816110b881886118f9565b868152030190205551938480936118f9565b9081520301902054309061216c565b7f94906eb0539bb018473d5cf91e1e4728a91e6ac182d92c00c59db489701f1eb35f80a2005b93809392915084813d831161112f575b6111198183611561565b81010312610556579251919290916110d961109e565b503d61110f565b85513d5f823e3d90fd5b9450905f60649261114f612206565b969150919250611067565b9350611164612206565b93611061565b8581969297503d8311611194575b6111828183611561565b8101031261055657879351945f611058565b503d611178565b89513d5f823e3d90fd5b6111ad612206565b865186816111bb81896118f9565b8781520301902055600554600160401b81101561120c5780836111e19201600555611979565b6111fa57906111f2855f94936119c2565b909150610fdb565b5f82634e487b7160e01b82525260245ffd5b604182634e487b7160e01b5f525260245ffd5b869291601f19831691855f528b5f20925f5b8d828210611266575050841161124f575b505050811b019055610fb5565b01515f19838a1b60f8161c191690555f8080611242565b8385015186558b97909501949384019301611231565b604185634e487b7160e01b5f525260245ffd5b9392918b8992601f198316855f52825f20925f905b8282106112dd5750509683610f6898106112c6575b505050811b019055611ee5565b01515f19838d1b60f8161c191690555f80806112b9565b838a015185558d969094019392830192018f6112a4565b604187634e487b7160e01b5f525260245ffd5b5f8b81528c8120929190601f198516908e5b828210611359575050916001939185610f0e9897969410611342575b505050811b018955611dcc565b01515f19838d1b60f8161c191690555f8080611335565b60018596829396860151815501950193018e611319565b855162461bcd60e51b8152908101859052600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b6044820152606490fd5b5034610556575f366003190112610556576020905f549051908152f35b503461055657611402602061141f92816113db366115c7565b91335f52600782526113f260ff825f2054166117c9565b5193828580945193849201611666565b810160038152030190205461141881151561180c565b339061216c565b005b5090346105565760209060206003193601126105565780356001600160401b0391828211610556573660238301121561055657810135928284116105565760059360243682871b850182011161055657949094335f52600791600760205260ff9461149160ff8a5f2054166117c9565b3681900360421901915f5b8981106114a557005b8481831b84010135848112156105565783019085820135918a8311610556576044019180360383136105565761140289898f82906113f28f6114ee60019a6114fe993691611582565b94335f528452825f2054166117c9565b0161149c565b6001600160401b03811161151757604052565b634e487b7160e01b5f52604160045260245ffd5b604081019081106001600160401b0382111761151757604052565b602081019081106001600160401b0382111761151757604052565b90601f801991011681019081106001600160401b0382111761151757604052565b9291926001600160401b03821161151757604051916115ab601f8201601f191660200184611561565b829481845281830111610556578281602093845f960137010152565b602060031982011261055657600435906001600160401b03821161055657806023830112156105565781602461160293600401359101611582565b90565b9080601f830112156105565781602061160293359101611582565b606060031982011261055657600435916001600160401b03602435818111610556578361164f91600401611605565b926044359182116105565761160291600401611605565b5f5b8381106116775750505f910152565b8181015183820152602001611668565b90600182811c921680156116b5575b60208310146116a157565b634e487b7160e01b5f52602260045260245ffd5b91607f1691611696565b9060405191825f82546116d181611687565b908184526020946001916001811690815f1461173f5750600114611701575b5050506116ff92500383611561565b565b5f90815285812095935091905b8183106117275750506116ff93508201015f80806116f0565b8554888401850152948501948794509183019161170e565b925050506116ff94925060ff191682840152151560051b8201015f80806116f0565b9060209161177a81518092818552858086019101611666565b601f01601f1916010190565b926117b36060936117a56117c194989798608088526080880190611761565b908682036020880152611761565b908482036040860152611761565b931515910152565b156117d057565b60405162461bcd60e51b8152602060048201526014602482015273155b985d5d1a1bdc9a5e995908185b985b1e5cdd60621b6044820152606490fd5b1561181357565b60405162461bcd60e51b815260206004820152601260248201527110d85d1959dbdc9e481b9bdd08199bdd5b9960721b6044820152606490fd5b1561185457565b60405162461bcd60e51b815260206004820152601a60248201527f416e616c7973697320616c726561647920636f6d706c657465640000000000006044820152606490fd5b519063ffffffff8216820361055657565b601f82116118b757505050565b5f5260205f20906020601f840160051c830193106118ef575b601f0160051c01905b8181106118e4575050565b5f81556001016118d9565b90915081906118d0565b5f9291815461190781611687565b9260019180831690811561195e5750600114611924575b50505050565b9091929394505f5260209060205f20905f915b85831061194d575050505001905f80808061191e565b805485840152918301918101611937565b60ff191684525050508115159091020191505f80808061191e565b6005548110156119ae5760055f527f036b6384b5eca791c62761152d0c79bb0604c104a5fb6f4eb0703f3154bb3db001905f90565b634e487b7160e01b5f52603260045260245ffd5b90808214611a9b576119d48154611687565b906001600160401b038211611517576119f1826102e78554611687565b5f90601f8311600114611a2d57611a1e92915f9183611a225750508160011b915f199060031b1c19161790565b9055565b015490505f806102b4565b90601f198316915f5260209160205f2090855f5260205f20935f905b828210611a82575050908460019594939210611a6a575b505050811b019055565b01545f1960f88460031b161c191690555f8080611a60565b8495819295850154815560018091019601940190611a49565b5050565b8051156119ae5760200190565b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0191602091838352604093845f205415611c9957855f528352835f209084518083868295549384815201905f52865f20925f5b88828210611c8357505050611b1b92500383611561565b805180850190818611611c6f578601809111611c6f57611bbc5f8694611b6a89611bcf9681519681611b5689935180928d8087019101611666565b8201908a8201520388810187520185611561565b611bde60018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948a51988997889687956378542ead60e01b87526060600488015260648701906121d3565b6003199384878303016024880152611761565b91848303016044850152611761565b03925af1918215611c65575f92611c2e575b505015611c1e57507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b5163cf6c44e960e01b8152600490fd5b90809250813d8311611c5e575b611c458183611561565b8101031261055657518015158103610556575f80611bf0565b503d611c3b565b83513d5f823e3d90fd5b634e487b7160e01b5f52601160045260245ffd5b8554845260019586019588955093019201611b04565b845163d66ca67560e01b8152600490fd5b60011b6401fffffffe63fffffffe821691168103611c6f57600363ffffffff8093160290828216918203611c6f5701818111611c6f578160059116041660508111611d7857603c8111611d4b57602810611d2157604051611d0a8161152b565b600781526613995d5d1c985b60ca1b602082015290565b604051611d2d8161152b565b600e81526d14db1a59da1d1b1e509a585cd95960921b602082015290565b50604051611d588161152b565b601081526f135bd9195c985d195b1e509a585cd95960821b602082015290565b50604051611d858161152b565b600c81526b121a59da1b1e509a585cd95960a21b602082015290565b9063ffffffff809216603203918211611c6f57565b63ffffffff9081166031190191908211611c6f57565b63ffffffff80916032828216115f14611ed657611de890611db6565b925b60328183161115611ec757611dfe90611db6565b925b16601e81118015611ebb575b611e8857600f10918215611e7b575b5050611e4e57604051611e2d8161152b565b601181527057697468696e4e6f726d616c52616e676560781b602082015290565b604051611e5a8161152b565b601181527026b7b232b930ba32a232bb34b0ba34b7b760791b602082015290565b600f925016115f80611e1b565b505050604051611e978161152b565b601481527329b4b3b734b334b1b0b73a2232bb34b0ba34b7b760611b602082015290565b50601e82841611611e0c565b611ed090611da1565b92611e00565b611edf90611da1565b92611dea565b600563ffffffff80921606168015611f9c5760018114611f785760028114611f5457600314611f3157604051611f1a8161152b565b60078152664f75746c65744560c81b602082015290565b604051611f3d8161152b565b600781526613dd5d1b195d1160ca1b602082015290565b50604051611f618161152b565b60078152664f75746c65744360c81b602082015290565b50604051611f858161152b565b600781526627baba3632ba2160c91b602082015290565b50604051611fa98161152b565b60078152664f75746c65744160c81b602082015290565b600554905f5b8281106120075760405162461bcd60e51b815260206004820152601260248201527110d85d1959dbdc9e481b9bdd08199bdd5b9960721b6044820152606490fd5b8161201182611979565b50604051612035816120276020820180956118f9565b03601f198101835282611561565b5190201461204557600101611fc6565b61160292506120549150611979565b506116bf565b60206120bd9260018060a01b0392837f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015416905f60405180978195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190611761565b6004606483015203925af191821561212d575f92612138575b505f8051602061229b8339815191525416803b1561055657604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af1801561212d57612124575090565b61160290611504565b6040513d5f823e3d90fd5b9091506020813d602011612164575b8161215460209383611561565b810103126105565751905f6120d6565b3d9150612147565b5f8051602061229b833981519152546001600160a01b031691823b1561055657604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af1801561212d576121ca5750565b6116ff90611504565b9081518082526020808093019301915f5b8281106121f2575050505090565b8351855293810193928101926001016121e4565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af190811561212d575f9161226b575090565b90506020813d602011612292575b8161228660209383611561565b81010312610556575190565b3d915061227956fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type NewsBiasFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: NewsBiasFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class NewsBiasFHE__factory extends ContractFactory {
+  constructor(...args: NewsBiasFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      NewsBiasFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): NewsBiasFHE__factory {
+    return super.connect(runner) as NewsBiasFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): NewsBiasFHEInterface {
+    return new Interface(_abi) as NewsBiasFHEInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): NewsBiasFHE {
+    return new Contract(address, _abi, runner) as unknown as NewsBiasFHE;
+  }
+}
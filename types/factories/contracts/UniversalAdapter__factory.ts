@@ -8,11 +8,11 @@ import {
   Interface,
 } from "ethers";
 import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
-import type { NonPayableOverrides } from "../common";
+import type { NonPayableOverrides } from "../../common";
 import type {
   UniversalAdapter,
   UniversalAdapterInterface,
-} from "../UniversalAdapter";
+} from "../../contracts/UniversalAdapter";
 
 const _abi = [
   {
@@ -93,7 +93,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x6080806040523461001657610468908161001b8239f35b5f80fdfe6080604081815260049182361015610015575f80fd5b5f3560e01c9081636c67bdfa146101a257508063856c71dd146101875763ae55c88814610040575f80fd5b3461018357602091826003193601126101835780359067ffffffffffffffff8211610183576100719136910161039f565b61009284845183819483830196873781015f838201520380845201826103cd565b5190205f525f8252805f2082825180925f9080546100af81610403565b808552916001918083169081156101605750600114610122575b5050506100db925094929403846103cd565b815192818492835281519182828501525f5b83811061010c5750505f83830185015250601f01601f19168101030190f35b81810183015187820187015286945082016100ed565b5f90815285812095935091905b8183106101485750879450508201016100db5f806100c9565b8554878401850152948501948694509183019161012f565b925050506100db94925060ff191682840152151560051b82010185925f806100c9565b5f80fd5b5034610183575f366003190112610183576020905160018152f35b83833461018357806003193601126101835767ffffffffffffffff908235828111610183576101d4903690850161039f565b9290602435828111610183576101ed903690870161039f565b92909560209788810190878583376102138a828a81015f838201520380845201826103cd565b5190205f525f8852845f2091841161038c57506102308154610403565b601f8111610349575b505f601f84116001146102bd577ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b1578296979284926102ad9561029e935f916102b2575b508460011b905f198660031b1c19161790555b855196868897885287019161043b565b9184830390850152339661043b565b0390a2005b90508a01358b61027b565b601f19841690825f52885f20915f5b81811061033257509261029e927ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b15782999a9592876102ad989610610319575b5050600184811b01905561028e565b8b01355f19600387901b60f8161c191690558a8061030a565b91928a60018192868d0135815501940192016102cc565b815f52875f20601f850160051c810191898610610382575b601f0160051c01905b8181106103775750610239565b5f815560010161036a565b9091508190610361565b604190634e487b7160e01b5f525260245ffd5b9181601f840112156101835782359167ffffffffffffffff8311610183576020838186019501011161018357565b90601f8019910116810190811067ffffffffffffffff8211176103ef57604052565b634e487b7160e01b5f52604160045260245ffd5b90600182811c92168015610431575b602083101461041d57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610412565b908060209392818452848401375f828201840152601f01601f191601019056fea164736f6c6343000818000a";
+  "0x6080806040523461001657610404908161001b8239f35b5f80fdfe6080604081815260049182361015610015575f80fd5b5f3560e01c9081636c67bdfa146101a157508063856c71dd146101865763ae55c88814610040575f80fd5b3461018257602091826003193601126101825767ffffffffffffffff92813584811161018257610074829136908501610371565b9190828651938492833781015f8152030190209083519283925f90805461009a8161039f565b91828752600191866001821691825f1461016457505060011461012d575b505050601f80199586920301168301958387109087111761011a57509084929183855280845281519182828601525f5b8381106101045750505f84830186015250601f01168101030190f35b81810183015188820188015287955082016100e8565b604190634e487b7160e01b5f525260245ffd5b5f9081528581209093505b82841061014e57505050830182015f80806100b8565b8054888501870152879650928501928101610138565b93509450505060ff191682860152151560051b8401015f80806100b8565b5f80fd5b5034610182575f366003190112610182576020905160018152f35b83833461018257806003193601126101825767ffffffffffffffff908235828111610182576101d39036908501610371565b9290602435828111610182576101ec9036908701610371565b92909585838937878681015f81526020998a910301902091841161011a5750610215815461039f565b601f811161032e575b505f601f84116001146102a2577ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b15782969792849261029295610283935f91610297575b508460011b905f198660031b1c19161790555b85519686889788528701916103d7565b918483039085015233966103d7565b0390a2005b90508a01358b610260565b601f19841690825f52885f20915f5b818110610317575092610283927ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b15782999a9592876102929896106102fe575b5050600184811b019055610273565b8b01355f19600387901b60f8161c191690558a806102ef565b91928a60018192868d0135815501940192016102b1565b815f52875f20601f850160051c810191898610610367575b601f0160051c01905b81811061035c575061021e565b5f815560010161034f565b9091508190610346565b9181601f840112156101825782359167ffffffffffffffff8311610182576020838186019501011161018257565b90600182811c921680156103cd575b60208310146103b957565b634e487b7160e01b5f52602260045260245ffd5b91607f16916103ae565b908060209392818452848401375f828201840152601f01601f191601019056fea164736f6c6343000818000a";
 
 type UniversalAdapterConstructorParams =
   | [signer?: Signer]
@@ -1,5 +1,6 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { CsrFeedbackFHE__factory } from "./CsrFeedbackFHE__factory";
+export * as test from "./test";
+export { NewsBiasFHE__factory } from "./NewsBiasFHE__factory";
 export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
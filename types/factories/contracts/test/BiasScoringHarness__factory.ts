@@ -0,0 +1,163 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  BiasScoringHarness,
+  BiasScoringHarnessInterface,
+} from "../../../contracts/test/BiasScoringHarness";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "contentScore",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "sentiment",
+        type: "uint32",
+      },
+    ],
+    name: "calculateBiasScore",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "contentScore",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "sentiment",
+        type: "uint32",
+      },
+    ],
+    name: "compareWithBaseline",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "keywords",
+        type: "uint32",
+      },
+    ],
+    name: "identifyMediaOutlet",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "contentScore",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "maxSentiment",
+        type: "uint32",
+      },
+    ],
+    name: "scoreRow",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "biasScores",
+        type: "string[]",
+      },
+      {
+        internalType: "string[]",
+        name: "comparisons",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080806040523461001657610673908161001b8239f35b5f80fdfe604060808152600480361015610013575f80fd5b5f3560e01c8063181dfa9314610198578063199e14901461016a5780638f34d5871461013157639103c05f14610047575f80fd5b3461012d578160031936011261012d5761005f6101c6565b916100686101d9565b63ffffffff936100818561007b84610286565b166102fb565b9061008f8661007b85610286565b91865f9416935b87811685811161010557906100e189926100b08387610380565b6100ba8287610358565b526100c58186610358565b506100d08387610492565b6100da8289610358565b5286610358565b50168781146100f257600101610096565b601187634e487b7160e01b5f525260245ffd5b8651878152806101298761011b838c018861022a565b90838203602085015261022a565b0390f35b5f80fd5b823461012d57602036600319011261012d57610129906101576101526101c6565b61059f565b90519182916020835260208301906101ec565b823461012d578060031936011261012d576101299061015761018a6101c6565b6101926101d9565b90610492565b823461012d578060031936011261012d57610129906101576101b86101c6565b6101c06101d9565b90610380565b6004359063ffffffff8216820361012d57565b6024359063ffffffff8216820361012d57565b91908251928382525f5b848110610216575050825f602080949584010152601f8019910116010190565b6020818301810151848301820152016101f6565b90808251908181526020809101926020808460051b8301019501935f915b8483106102585750505050505090565b9091929394958480610276600193601f198682030187528a516101ec565b9801930193019194939290610248565b90600163ffffffff8093160191821161029b57565b634e487b7160e01b5f52601160045260245ffd5b604051906040820182811067ffffffffffffffff8211176102cf57604052565b634e487b7160e01b5f52604160045260245ffd5b67ffffffffffffffff81116102cf5760051b60200190565b90610305826102e3565b60405190601f1990601f018116820167ffffffffffffffff8111838210176102cf5760405283825261033782946102e3565b01905f5b82811061034757505050565b80606060208093850101520161033b565b805182101561036c5760209160051b010190565b634e487b7160e01b5f52603260045260245ffd5b60011b6401fffffffe63fffffffe82169116810361029b57600363ffffffff809316029082821691820361029b570181811161029b57816005911604166050811161044257603c8111610419576028106103f3576103dc6102af565b600781526613995d5d1c985b60ca1b602082015290565b6103fb6102af565b600e81526d14db1a59da1d1b1e509a585cd95960921b602082015290565b506104226102af565b601081526f135bd9195c985d195b1e509a585cd95960821b602082015290565b5061044b6102af565b600c81526b121a59da1b1e509a585cd95960a21b602082015290565b9063ffffffff80921660320391821161029b57565b63ffffffff908116603119019190821161029b57565b63ffffffff80916032828216115f14610590576104ae9061047c565b925b60328183161115610581576104c49061047c565b925b16601e81118015610575575b61054657600f10918215610539575b5050610510576104ef6102af565b601181527057697468696e4e6f726d616c52616e676560781b602082015290565b6105186102af565b601181527026b7b232b930ba32a232bb34b0ba34b7b760791b602082015290565b600f925016115f806104e1565b5050506105516102af565b601481527329b4b3b734b334b1b0b73a2232bb34b0ba34b7b760611b602082015290565b50601e828416116104d2565b61058a90610467565b926104c6565b61059990610467565b926104b0565b600563ffffffff8092160616801561064657600181146106265760028114610606576003146105e7576105d06102af565b60078152664f75746c65744560c81b602082015290565b6105ef6102af565b600781526613dd5d1b195d1160ca1b602082015290565b5061060f6102af565b60078152664f75746c65744360c81b602082015290565b5061062f6102af565b600781526627baba3632ba2160c91b602082015290565b5061064f6102af565b60078152664f75746c65744160c81b60208201529056fea164736f6c6343000818000a";
+
+type BiasScoringHarnessConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: BiasScoringHarnessConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class BiasScoringHarness__factory extends ContractFactory {
+  constructor(...args: BiasScoringHarnessConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      BiasScoringHarness & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): BiasScoringHarness__factory {
+    return super.connect(runner) as BiasScoringHarness__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): BiasScoringHarnessInterface {
+    return new Interface(_abi) as BiasScoringHarnessInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): BiasScoringHarness {
+    return new Contract(address, _abi, runner) as unknown as BiasScoringHarness;
+  }
+}
@@ -46,9 +46,13 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IInputVerifier__factory>;
     getContractFactory(
-      name: "CsrFeedbackFHE",
+      name: "NewsBiasFHE",
       signerOrOptions?: ethers.Signer | FactoryOptions
-    ): Promise<Contracts.CsrFeedbackFHE__factory>;
+    ): Promise<Contracts.NewsBiasFHE__factory>;
+    getContractFactory(
+      name: "BiasScoringHarness",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.BiasScoringHarness__factory>;
     getContractFactory(
       name: "UniversalAdapter",
       signerOrOptions?: ethers.Signer | FactoryOptions
@@ -95,10 +99,15 @@ declare module "hardhat/types/runtime" {
       signer?: ethers.Signer
     ): Promise<Contracts.IInputVerifier>;
     getContractAt(
-      name: "CsrFeedbackFHE",
+      name: "NewsBiasFHE",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.NewsBiasFHE>;
+    getContractAt(
+      name: "BiasScoringHarness",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
-    ): Promise<Contracts.CsrFeedbackFHE>;
+    ): Promise<Contracts.BiasScoringHarness>;
     getContractAt(
       name: "UniversalAdapter",
       address: string | ethers.Addressable,
@@ -138,9 +147,13 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "CsrFeedbackFHE",
+      name: "NewsBiasFHE",
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.CsrFeedbackFHE>;
+    ): Promise<Contracts.NewsBiasFHE>;
+    deployContract(
+      name: "BiasScoringHarness",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.BiasScoringHarness>;
     deployContract(
       name: "UniversalAdapter",
       signerOrOptions?: ethers.Signer | DeployContractOptions
@@ -187,10 +200,15 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "CsrFeedbackFHE",
+      name: "NewsBiasFHE",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.NewsBiasFHE>;
+    deployContract(
+      name: "BiasScoringHarness",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.CsrFeedbackFHE>;
+    ): Promise<Contracts.BiasScoringHarness>;
     deployContract(
       name: "UniversalAdapter",
       args: any[],
@@ -22,7 +22,9 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
-export type { CsrFeedbackFHE } from "./contracts/CsrFeedbackFHE";
-export { CsrFeedbackFHE__factory } from "./factories/contracts/CsrFeedbackFHE__factory";
+export type { NewsBiasFHE } from "./contracts/NewsBiasFHE";
+export { NewsBiasFHE__factory } from "./factories/contracts/NewsBiasFHE__factory";
+export type { BiasScoringHarness } from "./contracts/test/BiasScoringHarness";
+export { BiasScoringHarness__factory } from "./factories/contracts/test/BiasScoringHarness__factory";
 export type { UniversalAdapter } from "./contracts/UniversalAdapter";
 export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";